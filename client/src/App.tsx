@@ -9,6 +9,8 @@ import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import WhatIf from "@/pages/what-if";
+import Connections from "@/pages/connections";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -31,6 +33,8 @@ function Router() {
       ) : (
         <>
           <Route path="/" component={Dashboard} />
+          <Route path="/what-if" component={WhatIf} />
+          <Route path="/connections" component={Connections} />
         </>
       )}
       <Route component={NotFound} />
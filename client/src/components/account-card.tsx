@@ -11,18 +11,25 @@ import {
   RefreshCw,
   Calendar,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  Clock,
+  Unlink
 } from "lucide-react";
-import { format } from "date-fns";
-import type { DebtAccount } from "@shared/schema";
+import { differenceInCalendarDays, format } from "date-fns";
+import type { DebtAccount, PromoPeriod, SyncRun } from "@shared/schema";
+import { accountUtilization } from "@shared/utilization";
 
 interface AccountCardProps {
   account: DebtAccount & {
     lastSynced?: Date | string | null;
     nextPaymentDue?: string | null;
     lastPaymentDate?: string | null;
+    promoPeriods?: PromoPeriod[];
   };
+  // Most recent sync of the connection the account belongs to
+  lastSyncRun?: SyncRun;
   onSync?: (accountId: string) => void;
+  onDisconnect?: (account: DebtAccount) => void;
   isSyncing?: boolean;
 }
 
@@ -35,27 +42,48 @@ const accountTypeIcons = {
   heloc: Building2,
 };
 
+// Warn this many days before a promotional rate runs out
+const PROMO_WARNING_DAYS = 60;
+
 const syncSourceLabels = {
   plaid: "Plaid",
   method: "Method",
+  file: "Imported",
   manual: "Manual",
 };
 
+// Error codes recorded by server/sync-runs.ts
+export const syncErrorDescriptions: Record<string, string> = {
+  REAUTH_REQUIRED: "The bank needs you to log in again.",
+  RATE_LIMITED: "Too many requests to the provider. It will retry shortly.",
+  INSTITUTION_UNAVAILABLE: "The bank isn't responding right now.",
+  PROVIDER_AUTH_FAILED: "The provider rejected the connection's credentials.",
+  NETWORK_ERROR: "The provider couldn't be reached.",
+  PROVIDER_ERROR: "The provider returned an error.",
+};
+
 const syncSourceColors = {
   plaid: "bg-green-100 text-green-800",
   method: "bg-blue-100 text-blue-800",
+  file: "bg-purple-100 text-purple-800",
   manual: "bg-gray-100 text-gray-800",
 };
 
-export default function AccountCard({ account, onSync, isSyncing }: AccountCardProps) {
+export default function AccountCard({ account, lastSyncRun, onSync, onDisconnect, isSyncing }: AccountCardProps) {
   const Icon = accountTypeIcons[account.accountType as keyof typeof accountTypeIcons] || DollarSign;
   const balance = parseFloat(account.currentBalance || "0");
-  const creditLimit = account.creditLimit ? parseFloat(account.creditLimit) : null;
   const interestRate = parseFloat(account.interestRate || "0");
   const minimumPayment = account.minimumPayment ? parseFloat(account.minimumPayment) : null;
   
-  // Calculate utilization for credit cards
-  const utilization = creditLimit ? (balance / creditLimit) * 100 : null;
+  // Utilization and pay-down targets for credit cards and HELOCs
+  const utilization = accountUtilization(account);
+  
+  // Promotional rate currently in effect, if any (dates arrive as ISO strings)
+  const now = new Date();
+  const activePromo = (account.promoPeriods || []).find(promo =>
+    new Date(promo.startDate) <= now && now <= new Date(promo.endDate)
+  );
+  const promoDaysLeft = activePromo ? differenceInCalendarDays(new Date(activePromo.endDate), now) : null;
   
   // Determine sync source
   const syncSource = account.syncSource || (account.isManual ? "manual" : "plaid");
@@ -66,6 +94,7 @@ export default function AccountCard({ account, onSync, isSyncing }: AccountCardP
   const lastSyncedDate = account.lastSynced ? 
     (typeof account.lastSynced === 'string' ? new Date(account.lastSynced) : account.lastSynced) : null;
   const formattedLastSync = lastSyncedDate ? format(lastSyncedDate, "MMM d, h:mm a") : "Never";
+  const syncFailed = lastSyncRun?.status === "failed";
   
   return (
     <Card className="relative overflow-hidden hover:shadow-lg transition-shadow">
@@ -86,7 +115,7 @@ export default function AccountCard({ account, onSync, isSyncing }: AccountCardP
             <Badge variant="secondary" className={syncColorClass}>
               {syncLabel}
             </Badge>
-            {!account.isManual && onSync && (
+            {!account.isManual && syncSource !== 'file' && onSync && (
               <button
                 onClick={() => onSync(account.id)}
                 disabled={isSyncing}
@@ -97,6 +126,16 @@ export default function AccountCard({ account, onSync, isSyncing }: AccountCardP
                 {isSyncing ? 'Syncing...' : formattedLastSync}
               </button>
             )}
+            {!account.isManual && account.connectionId && onDisconnect && (
+              <button
+                onClick={() => onDisconnect(account)}
+                className="text-xs text-gray-500 hover:text-red-700 flex items-center gap-1"
+                data-testid={`button-disconnect-${account.id}`}
+              >
+                <Unlink className="h-3 w-3" />
+                Disconnect
+              </button>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -109,20 +148,30 @@ export default function AccountCard({ account, onSync, isSyncing }: AccountCardP
             <span className="text-2xl font-bold">${balance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
           </div>
           
-          {/* Credit Utilization for Credit Cards */}
-          {account.accountType === 'credit_card' && creditLimit && (
+          {/* Credit Utilization for Credit Cards and HELOCs */}
+          {utilization && (
             <div className="space-y-1">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-500">Credit Utilization</span>
-                <span className={utilization! > 70 ? "text-red-600 font-medium" : "text-gray-700"}>
-                  {utilization!.toFixed(0)}%
+                <span className={utilization.utilization > 70 ? "text-red-600 font-medium" : "text-gray-700"}>
+                  {utilization.utilization.toFixed(0)}%
                 </span>
               </div>
-              <Progress value={utilization!} className="h-2" />
+              <Progress value={Math.min(utilization.utilization, 100)} className="h-2" />
               <div className="flex justify-between text-xs text-gray-500">
                 <span>${balance.toLocaleString('en-US', { maximumFractionDigits: 0 })}</span>
-                <span>${creditLimit.toLocaleString('en-US', { maximumFractionDigits: 0 })} limit</span>
+                <span>${utilization.creditLimit.toLocaleString('en-US', { maximumFractionDigits: 0 })} limit</span>
               </div>
+              {utilization.payDownTo30 > 0 ? (
+                <p className="text-xs text-gray-500" data-testid={`text-paydown-${account.id}`}>
+                  Pay ${utilization.payDownTo30.toLocaleString('en-US', { maximumFractionDigits: 0 })} to reach 30%,
+                  {' '}${utilization.payDownTo10.toLocaleString('en-US', { maximumFractionDigits: 0 })} to reach 10%
+                </p>
+              ) : utilization.payDownTo10 > 0 ? (
+                <p className="text-xs text-gray-500" data-testid={`text-paydown-${account.id}`}>
+                  Under 30% - pay ${utilization.payDownTo10.toLocaleString('en-US', { maximumFractionDigits: 0 })} to reach 10%
+                </p>
+              ) : null}
             </div>
           )}
         </div>
@@ -133,8 +182,13 @@ export default function AccountCard({ account, onSync, isSyncing }: AccountCardP
             <p className="text-gray-500">Interest Rate</p>
             <p className="font-medium flex items-center gap-1">
               <TrendingUp className="h-3 w-3" />
-              {interestRate.toFixed(2)}%
+              {activePromo ? `${parseFloat(activePromo.rate).toFixed(2)}%` : `${interestRate.toFixed(2)}%`}
             </p>
+            {activePromo && (
+              <p className="text-xs text-gray-500">
+                Promo until {format(new Date(activePromo.endDate), "MMM d, yyyy")}, then {interestRate.toFixed(2)}%
+              </p>
+            )}
           </div>
           {minimumPayment && (
             <div>
@@ -144,6 +198,21 @@ export default function AccountCard({ account, onSync, isSyncing }: AccountCardP
           )}
         </div>
         
+        {/* Promo expiry countdown */}
+        {activePromo && promoDaysLeft !== null && promoDaysLeft <= PROMO_WARNING_DAYS && (
+          <div
+            className="flex items-start gap-2 rounded-md bg-amber-50 border border-amber-200 p-2 text-xs text-amber-900"
+            data-testid={`text-promo-warning-${account.id}`}
+          >
+            <Clock className="h-3 w-3 mt-0.5 shrink-0" />
+            <span>
+              {promoDaysLeft === 0 ? "Promo rate ends today" : `Promo rate ends in ${promoDaysLeft} day${promoDaysLeft === 1 ? "" : "s"}`}
+              {" "}- the rate goes to {interestRate.toFixed(2)}%.
+              {activePromo.deferredInterest && " Deferred interest will be charged on any balance left when it ends."}
+            </span>
+          </div>
+        )}
+        
         {/* Method-specific payment dates */}
         {syncSource === 'method' && (
           <div className="border-t pt-3 space-y-2">
@@ -172,6 +241,21 @@ export default function AccountCard({ account, onSync, isSyncing }: AccountCardP
           </div>
         )}
         
+        {/* Last sync of the account's connection failed */}
+        {syncFailed && (
+          <div
+            className="flex items-start gap-2 rounded-md bg-red-50 border border-red-200 p-2 text-xs text-red-900"
+            title={lastSyncRun.errorMessage || undefined}
+            data-testid={`text-sync-error-${account.id}`}
+          >
+            <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+            <span>
+              Sync failed {format(new Date(lastSyncRun.startedAt), "MMM d, h:mm a")}.
+              {" "}{syncErrorDescriptions[lastSyncRun.errorCode || ""] || "Something went wrong."}
+            </span>
+          </div>
+        )}
+        
         {/* Manual account indicator */}
         {account.isManual && (
           <div className="border-t pt-3">
@@ -16,18 +16,24 @@ import {
   AlertCircle,
   Plus,
 } from "lucide-react";
-import { DebtAccount } from "@shared/schema";
+import { DebtAccount, SyncRun } from "@shared/schema";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import AccountCard from "./account-card";
 import AddAccountModal from "./add-account-modal";
 import ProviderConnectModal from "./provider-connect-modal";
+import DuplicateAccounts from "./duplicate-accounts";
+import DemoTimeTravel from "./demo-time-travel";
+import DisconnectDialog from "./disconnect-dialog";
+
+const LATEST_SYNC_RUNS_KEY = "/api/sync-runs?latest=true";
 
 export default function AccountList() {
   const [sortBy, setSortBy] = useState("balance-desc");
   const [showAddModal, setShowAddModal] = useState(false);
   const [showProviderModal, setShowProviderModal] = useState(false);
+  const [disconnecting, setDisconnecting] = useState<DebtAccount | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -36,6 +42,17 @@ export default function AccountList() {
     retry: false,
   });
 
+  const { data: latestSyncRuns = [] } = useQuery<SyncRun[]>({
+    queryKey: [LATEST_SYNC_RUNS_KEY],
+    enabled: accounts.some(account => account.connectionId),
+    retry: false,
+  });
+  const syncRunsByConnection = new Map(latestSyncRuns.map(run => [run.connectionId, run]));
+  // Runs of connections that have since been disconnected no longer matter
+  const failedSyncRuns = latestSyncRuns.filter(run =>
+    run.status === "failed" && accounts.some(account => account.connectionId === run.connectionId)
+  );
+
   // Handle unauthorized errors
   if (error && isUnauthorizedError(error)) {
     toast({
@@ -53,9 +70,22 @@ export default function AccountList() {
       const response = await apiRequest("POST", "/api/plaid/sync");
       return response.json();
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LATEST_SYNC_RUNS_KEY] });
+    },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
+      if (data.needs_reauth?.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/providers/plaid/connections"] });
+        toast({
+          title: "Some connections need attention",
+          description: `${data.needs_reauth.length} bank connection${data.needs_reauth.length === 1 ? "" : "s"} must be reconnected before they can sync.`,
+          variant: "destructive",
+        });
+        setShowProviderModal(true);
+        return;
+      }
       toast({
         title: "Plaid accounts synced",
         description: `Updated ${data.synced_connections} of ${data.total_connections} connections.`,
@@ -86,6 +116,9 @@ export default function AccountList() {
       const response = await apiRequest("POST", "/api/method/sync");
       return response.json();
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LATEST_SYNC_RUNS_KEY] });
+    },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
@@ -116,16 +149,13 @@ export default function AccountList() {
 
   const syncAccountMutation = useMutation({
     mutationFn: async (accountId: string) => {
-      const account = accounts.find(a => a.id === accountId);
-      if (!account) throw new Error("Account not found");
-      
-      const endpoint = account.syncSource === 'method' 
-        ? `/api/method/sync/${accountId}`
-        : `/api/plaid/sync/${accountId}`;
-      
-      const response = await apiRequest("POST", endpoint);
+      // Synced through the connection the account came from
+      const response = await apiRequest("POST", `/api/providers/sync/${accountId}`);
       return response.json();
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LATEST_SYNC_RUNS_KEY] });
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
@@ -248,6 +278,8 @@ export default function AccountList() {
         </div>
 
         <div className="p-6">
+          {accounts.some(account => account.syncSource === 'demo') && <DemoTimeTravel />}
+          <DuplicateAccounts accounts={accounts} />
           {sortedAccounts.length === 0 ? (
             <div className="text-center py-12">
               <CreditCard className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -275,7 +307,9 @@ export default function AccountList() {
                 <AccountCard
                   key={account.id}
                   account={account}
+                  lastSyncRun={account.connectionId ? syncRunsByConnection.get(account.connectionId) : undefined}
                   onSync={!account.isManual ? (id) => syncAccountMutation.mutate(id) : undefined}
+                  onDisconnect={setDisconnecting}
                   isSyncing={syncAccountMutation.isPending && syncAccountMutation.variables === account.id}
                 />
               ))}
@@ -288,7 +322,11 @@ export default function AccountList() {
           <div className="px-6 py-4 bg-gray-50 border-t border-gray-200">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
-                <CheckCircle className="h-5 w-5 text-green-600" />
+                {failedSyncRuns.length > 0 ? (
+                  <AlertCircle className="h-5 w-5 text-red-600" />
+                ) : (
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                )}
                 <div>
                   <h4 className="text-sm font-semibold text-primary">Connection Status</h4>
                   <p className="text-xs text-secondary">
@@ -299,6 +337,13 @@ export default function AccountList() {
                     {manualAccounts.length > 0 && `${manualAccounts.length} Manual`}
                     {' accounts'}
                   </p>
+                  {failedSyncRuns.length > 0 && (
+                    <p className="text-xs text-red-600" data-testid="text-failed-connections">
+                      {failedSyncRuns.length === 1
+                        ? "1 connection failed its last sync"
+                        : `${failedSyncRuns.length} connections failed their last sync`}
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex space-x-2">
@@ -361,6 +406,16 @@ export default function AccountList() {
         isOpen={showProviderModal}
         onClose={() => setShowProviderModal(false)}
       />
+      
+      <DisconnectDialog
+        connection={disconnecting && disconnecting.connectionId ? {
+          source: disconnecting.syncSource || "plaid",
+          connectionId: disconnecting.connectionId,
+          institutionName: disconnecting.institutionName,
+        } : null}
+        accounts={accounts}
+        onClose={() => setDisconnecting(null)}
+      />
     </>
   );
 }
\ No newline at end of file
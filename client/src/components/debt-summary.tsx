@@ -1,15 +1,36 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
-import { CreditCard, Percent, Calendar, TrendingUp } from "lucide-react";
+import { CreditCard, Percent, Calendar, TrendingUp, Flag, Activity, PiggyBank, AlertTriangle } from "lucide-react";
+import { format, parse } from "date-fns";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useToast } from "@/hooks/use-toast";
 
+interface NeverPaysOffAccount {
+  accountId: string;
+  accountNickname: string;
+  institutionName: string;
+  monthlyPayment: number;
+}
+
+interface DebtFreeProjection {
+  monthlyPayment: number;
+  monthsToDebtFree: number | null;
+  debtFreeDate: string | null;
+  totalInterest: number;
+  neverPaysOff: NeverPaysOffAccount[];
+}
+
 interface DebtSummary {
   totalDebt: number;
   weightedAvgRate: number;
   totalMinimumPayments: number;
   monthlyInterest: number;
   accountCount: number;
+  projection: {
+    minimumOnly: DebtFreeProjection;
+    recentPace: DebtFreeProjection | null;
+    lifetimeInterestRemaining: number;
+  };
 }
 
 export default function DebtSummary() {
@@ -78,71 +99,168 @@ export default function DebtSummary() {
     return `${rate.toFixed(1)}%`;
   };
 
+  const formatDebtFreeDate = (projection: DebtFreeProjection) => {
+    if (!projection.debtFreeDate) return "Never";
+    return format(parse(projection.debtFreeDate, "yyyy-MM", new Date()), "MMM yyyy");
+  };
+
+  const formatMonths = (months: number) => {
+    const years = Math.floor(months / 12);
+    const remainder = months % 12;
+    if (years === 0) return `${remainder} mo`;
+    return remainder === 0 ? `${years} yr` : `${years} yr ${remainder} mo`;
+  };
+
+  const { minimumOnly, recentPace, lifetimeInterestRemaining } = summary.projection;
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-      <Card className="bg-white shadow-sm border border-gray-200">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-secondary">Total Debt</p>
-              <p className="text-3xl font-bold text-primary mt-1" data-testid="text-total-debt">
-                {formatCurrency(summary.totalDebt)}
-              </p>
-            </div>
-            <div className="bg-red-50 p-3 rounded-lg">
-              <CreditCard className="h-6 w-6 text-debt-red" />
+    <div className="mb-8 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Card className="bg-white shadow-sm border border-gray-200">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-secondary">Total Debt</p>
+                <p className="text-3xl font-bold text-primary mt-1" data-testid="text-total-debt">
+                  {formatCurrency(summary.totalDebt)}
+                </p>
+              </div>
+              <div className="bg-red-50 p-3 rounded-lg">
+                <CreditCard className="h-6 w-6 text-debt-red" />
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      <Card className="bg-white shadow-sm border border-gray-200">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-secondary">Weighted Avg. Rate</p>
-              <p className="text-3xl font-bold text-debt-amber mt-1" data-testid="text-avg-rate">
-                {formatPercentage(summary.weightedAvgRate)}
-              </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white shadow-sm border border-gray-200">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-secondary">Weighted Avg. Rate</p>
+                <p className="text-3xl font-bold text-debt-amber mt-1" data-testid="text-avg-rate">
+                  {formatPercentage(summary.weightedAvgRate)}
+                </p>
+              </div>
+              <div className="bg-amber-50 p-3 rounded-lg">
+                <Percent className="h-6 w-6 text-debt-amber" />
+              </div>
             </div>
-            <div className="bg-amber-50 p-3 rounded-lg">
-              <Percent className="h-6 w-6 text-debt-amber" />
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white shadow-sm border border-gray-200">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-secondary">Monthly Minimums</p>
+                <p className="text-3xl font-bold text-primary mt-1" data-testid="text-monthly-minimums">
+                  {formatCurrency(summary.totalMinimumPayments)}
+                </p>
+              </div>
+              <div className="bg-blue-50 p-3 rounded-lg">
+                <Calendar className="h-6 w-6 text-blue-600" />
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      <Card className="bg-white shadow-sm border border-gray-200">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-secondary">Monthly Minimums</p>
-              <p className="text-3xl font-bold text-primary mt-1" data-testid="text-monthly-minimums">
-                {formatCurrency(summary.totalMinimumPayments)}
-              </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white shadow-sm border border-gray-200">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-secondary">Monthly Interest</p>
+                <p className="text-3xl font-bold text-debt-red mt-1" data-testid="text-monthly-interest">
+                  {formatCurrency(summary.monthlyInterest)}
+                </p>
+              </div>
+              <div className="bg-red-50 p-3 rounded-lg">
+                <TrendingUp className="h-6 w-6 text-debt-red" />
+              </div>
             </div>
-            <div className="bg-blue-50 p-3 rounded-lg">
-              <Calendar className="h-6 w-6 text-blue-600" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="bg-white shadow-sm border border-gray-200">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-secondary">Debt-Free Paying Minimums</p>
+                <p className="text-3xl font-bold text-primary mt-1" data-testid="text-debt-free-minimums">
+                  {formatDebtFreeDate(minimumOnly)}
+                </p>
+                {minimumOnly.monthsToDebtFree !== null && (
+                  <p className="text-xs text-secondary mt-1">{formatMonths(minimumOnly.monthsToDebtFree)} from now</p>
+                )}
+              </div>
+              <div className="bg-blue-50 p-3 rounded-lg">
+                <Flag className="h-6 w-6 text-blue-600" />
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      <Card className="bg-white shadow-sm border border-gray-200">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-secondary">Monthly Interest</p>
-              <p className="text-3xl font-bold text-debt-red mt-1" data-testid="text-monthly-interest">
-                {formatCurrency(summary.monthlyInterest)}
-              </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white shadow-sm border border-gray-200">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-secondary">Debt-Free at Recent Pace</p>
+                <p className="text-3xl font-bold text-primary mt-1" data-testid="text-debt-free-recent">
+                  {recentPace ? formatDebtFreeDate(recentPace) : "—"}
+                </p>
+                <p className="text-xs text-secondary mt-1">
+                  {recentPace
+                    ? `Paying about ${formatCurrency(recentPace.monthlyPayment)}/mo`
+                    : "Not enough payment history yet"}
+                </p>
+              </div>
+              <div className="bg-green-50 p-3 rounded-lg">
+                <Activity className="h-6 w-6 text-green-600" />
+              </div>
             </div>
-            <div className="bg-red-50 p-3 rounded-lg">
-              <TrendingUp className="h-6 w-6 text-debt-red" />
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white shadow-sm border border-gray-200">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-secondary">Interest Remaining</p>
+                <p className="text-3xl font-bold text-debt-red mt-1" data-testid="text-interest-remaining">
+                  {formatCurrency(lifetimeInterestRemaining)}
+                </p>
+                <p className="text-xs text-secondary mt-1">
+                  {minimumOnly.neverPaysOff.length > 0
+                    ? "At minimums, excluding accounts that never pay off"
+                    : "If you pay only the minimums"}
+                </p>
+              </div>
+              <div className="bg-red-50 p-3 rounded-lg">
+                <PiggyBank className="h-6 w-6 text-debt-red" />
+              </div>
             </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {minimumOnly.neverPaysOff.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex gap-3" data-testid="text-never-pays-off">
+          <AlertTriangle className="h-5 w-5 text-red-600 shrink-0 mt-0.5" />
+          <div className="text-sm text-red-800">
+            <p className="font-medium">
+              {minimumOnly.neverPaysOff.length === 1 ? "This account" : "These accounts"} will never be paid off at the minimum payment:
+            </p>
+            <ul className="mt-1 list-disc list-inside">
+              {minimumOnly.neverPaysOff.map(account => (
+                <li key={account.accountId}>
+                  {account.accountNickname} ({account.institutionName}) - {formatCurrency(account.monthlyPayment)}/mo doesn't keep up with interest
+                </li>
+              ))}
+            </ul>
           </div>
-        </CardContent>
-      </Card>
+        </div>
+      )}
     </div>
   );
 }
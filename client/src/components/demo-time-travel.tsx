@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { FastForward, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DemoConnection {
+  id: string;
+  institutionName: string;
+  isActive: boolean;
+  simulatedDate: string;
+}
+
+const jumps = [
+  { months: 1, label: "+1 month" },
+  { months: 6, label: "+6 months" },
+  { months: 12, label: "+1 year" },
+];
+
+// Moves the demo simulation forward so balances, interest and card activity play out over time
+export default function DemoTimeTravel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<{ connections: DemoConnection[] }>({
+    queryKey: ["/api/providers/demo/connections"],
+    retry: false,
+  });
+  const connections = (data?.connections || []).filter(connection => connection.isActive);
+
+  const advanceMutation = useMutation({
+    mutationFn: async (months: number) => {
+      const response = await apiRequest("POST", "/api/providers/demo/advance", { months });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/providers/demo/connections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
+      toast({
+        title: "Demo clock moved forward",
+        description: `Demo accounts now show ${format(new Date(result.simulatedDate), "MMMM d, yyyy")}.`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Time travel failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (connections.length === 0) return null;
+
+  // Connections can be jumped separately, so show the furthest one
+  const simulatedDate = new Date(Math.max(...connections.map(connection => new Date(connection.simulatedDate).getTime())));
+
+  return (
+    <div
+      className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-blue-200 bg-blue-50 p-4"
+      data-testid="demo-time-travel"
+    >
+      <div>
+        <h4 className="font-semibold text-blue-900">Demo simulation</h4>
+        <p className="text-sm text-blue-800">
+          Demo accounts are at {format(simulatedDate, "MMMM d, yyyy")}. Jump ahead to see interest, payments and spending add up.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {jumps.map(jump => (
+          <Button
+            key={jump.months}
+            size="sm"
+            variant="outline"
+            disabled={advanceMutation.isPending}
+            onClick={() => advanceMutation.mutate(jump.months)}
+            data-testid={`button-advance-${jump.months}`}
+          >
+            {advanceMutation.isPending && advanceMutation.variables === jump.months ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FastForward className="h-4 w-4 mr-2" />
+            )}
+            {jump.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2 } from "lucide-react";
+import { DebtAccount } from "@shared/schema";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export type DisconnectAccountAction = "keep" | "hide" | "delete";
+
+interface DisconnectDialogProps {
+  connection: {
+    source: string;
+    connectionId: string;
+    institutionName: string;
+  } | null;
+  accounts: DebtAccount[];
+  onClose: () => void;
+}
+
+const accountActions: { value: DisconnectAccountAction; label: string; description: string }[] = [
+  {
+    value: "keep",
+    label: "Keep as manual accounts",
+    description: "Balances stop updating but stay in your totals until you edit or remove them.",
+  },
+  {
+    value: "hide",
+    label: "Hide them",
+    description: "They no longer count toward your totals. History is kept.",
+  },
+  {
+    value: "delete",
+    label: "Delete them",
+    description: "Removes the accounts along with their balance history and payments.",
+  },
+];
+
+export default function DisconnectDialog({ connection, accounts, onClose }: DisconnectDialogProps) {
+  const [accountAction, setAccountAction] = useState<DisconnectAccountAction>("keep");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const connectionAccounts = connection
+    ? accounts.filter(account => account.connectionId === connection.connectionId)
+    : [];
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        "DELETE",
+        `/api/providers/${connection!.source}/${connection!.connectionId}?accounts=${accountAction}`,
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
+      toast({
+        title: "Disconnected",
+        description: `${connection!.institutionName} will no longer sync.`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Disconnect failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setAccountAction("keep");
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!connection} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Disconnect {connection?.institutionName}?</DialogTitle>
+          <DialogDescription>
+            {connectionAccounts.length === 1
+              ? "1 account was added through this connection."
+              : `${connectionAccounts.length} accounts were added through this connection.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {connectionAccounts.length > 0 && (
+          <ul className="text-sm text-gray-700 list-disc pl-5">
+            {connectionAccounts.map(account => (
+              <li key={account.id}>{account.accountNickname}</li>
+            ))}
+          </ul>
+        )}
+
+        <RadioGroup
+          value={accountAction}
+          onValueChange={(value) => setAccountAction(value as DisconnectAccountAction)}
+          className="space-y-2"
+        >
+          {accountActions.map(action => (
+            <div key={action.value} className="flex items-start gap-3">
+              <RadioGroupItem value={action.value} id={`disconnect-${action.value}`} className="mt-1" />
+              <Label htmlFor={`disconnect-${action.value}`} className="font-normal">
+                <span className="font-medium">{action.label}</span>
+                <span className="block text-xs text-gray-500">{action.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => disconnectMutation.mutate()}
+            disabled={disconnectMutation.isPending}
+            data-testid="button-confirm-disconnect"
+          >
+            {disconnectMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Disconnect
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Loader2 } from "lucide-react";
+import { DebtAccount } from "@shared/schema";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DuplicateMatch {
+  accountIds: [string, string];
+  confidence: "high" | "medium";
+  reasons: string[];
+}
+
+interface DuplicateAccountsProps {
+  accounts: DebtAccount[];
+}
+
+const sourceLabels: Record<string, string> = {
+  plaid: "Plaid",
+  method: "Method",
+  demo: "Demo",
+  file: "Imported",
+  manual: "Manual",
+};
+
+export default function DuplicateAccounts({ accounts }: DuplicateAccountsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: matches = [] } = useQuery<DuplicateMatch[]>({
+    queryKey: ["/api/debt-accounts/duplicates"],
+    enabled: accounts.length > 1,
+    retry: false,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts/duplicates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
+  };
+
+  const handleError = (error: Error, title: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ keepId, duplicateId }: { keepId: string; duplicateId: string }) => {
+      const response = await apiRequest("POST", `/api/debt-accounts/${keepId}/merge`, { duplicateId });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Accounts merged",
+        description: "The duplicate's history and provider links now belong to the account you kept.",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Merge failed"),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (accountIds: [string, string]) => {
+      await apiRequest("POST", "/api/debt-accounts/duplicates/dismiss", { accountIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts/duplicates"] });
+    },
+    onError: (error: Error) => handleError(error, "Could not dismiss"),
+  });
+
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+  const visibleMatches = matches.filter(match => match.accountIds.every(id => accountsById.has(id)));
+  if (visibleMatches.length === 0) return null;
+
+  const isBusy = mergeMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-4" data-testid="duplicate-accounts">
+      <div className="flex items-start gap-3">
+        <Copy className="h-5 w-5 text-amber-700 mt-0.5" />
+        <div>
+          <h4 className="font-semibold text-amber-900">Possible duplicate accounts</h4>
+          <p className="text-sm text-amber-800">
+            These look like the same debt added twice, which counts it twice in your totals. Pick the account to keep.
+          </p>
+        </div>
+      </div>
+
+      {visibleMatches.map((match) => {
+        const [first, second] = match.accountIds.map(id => accountsById.get(id)!);
+        return (
+          <div key={match.accountIds.join(":")} className="bg-white border border-amber-200 rounded-md p-3">
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <Badge variant={match.confidence === "high" ? "destructive" : "secondary"}>
+                {match.confidence === "high" ? "Likely duplicate" : "Possible duplicate"}
+              </Badge>
+              <span className="text-xs text-gray-600">{match.reasons.join(" · ")}</span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {[first, second].map((account) => {
+                const other = account.id === first.id ? second : first;
+                return (
+                  <div key={account.id} className="border border-gray-200 rounded-md p-3 flex flex-col gap-2">
+                    <div>
+                      <div className="font-medium text-primary">{account.accountNickname}</div>
+                      <div className="text-xs text-gray-500">
+                        {account.institutionName}
+                        {account.mask && ` ···${account.mask}`}
+                        {" · "}
+                        {sourceLabels[account.syncSource || "manual"] || account.syncSource}
+                      </div>
+                    </div>
+                    <div className="text-sm">${parseFloat(account.currentBalance).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isBusy}
+                      onClick={() => mergeMutation.mutate({ keepId: account.id, duplicateId: other.id })}
+                      data-testid={`button-keep-${account.id}`}
+                    >
+                      {mergeMutation.isPending && mergeMutation.variables?.keepId === account.id && (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      )}
+                      Keep this one
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="mt-3 text-right">
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={isBusy}
+                onClick={() => dismissMutation.mutate(match.accountIds)}
+              >
+                Not the same account
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
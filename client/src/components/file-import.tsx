@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, Loader2, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface FileImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+type CsvMapping = Record<string, string>;
+
+interface PreviewAccount {
+  providerId: string;
+  institutionName: string;
+  accountName: string;
+  accountType: string;
+  currentBalance: number;
+  interestRate?: number;
+  minimumPayment?: number;
+  action: "create" | "update";
+}
+
+interface FilePreview {
+  format: "csv" | "ofx";
+  headers?: string[];
+  mapping?: CsvMapping;
+  fields: string[];
+  requiredFields: string[];
+  accounts: PreviewAccount[];
+  errors: { row: number; message: string }[];
+}
+
+const UNMAPPED = "__none__";
+
+const fieldLabels: Record<string, string> = {
+  institution_name: "Institution",
+  account_name: "Account name",
+  account_type: "Account type",
+  current_balance: "Current balance",
+  interest_rate: "Interest rate (APR %)",
+  minimum_payment: "Minimum payment",
+  credit_limit: "Credit limit",
+  due_date: "Next due date",
+  account_id: "Account number",
+};
+
+export default function FileImport({ isOpen, onClose, onSuccess }: FileImportProps) {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: async (upload: { name: string; content: string; mapping?: CsvMapping }) => {
+      const response = await apiRequest("POST", "/api/providers/file/preview", {
+        fileName: upload.name,
+        content: upload.content,
+        mapping: upload.mapping,
+      });
+      return response.json() as Promise<FilePreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping || {});
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not read file",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/providers/file/import", {
+        fileName: file!.name,
+        content: file!.content,
+        mapping: preview?.format === "csv" ? mapping : undefined,
+      });
+      return response.json() as Promise<{ created: number; updated: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
+      toast({
+        title: "Statement imported",
+        description: `Added ${data.created} and updated ${data.updated} accounts`,
+      });
+      handleClose();
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const upload = { name: selected.name, content: await selected.text() };
+    setFile(upload);
+    previewMutation.mutate(upload);
+  };
+
+  const handleMappingChange = (field: string, header: string) => {
+    const next = { ...mapping };
+    if (header === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = header;
+    }
+    setMapping(next);
+    if (file) {
+      previewMutation.mutate({ ...file, mapping: next });
+    }
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import a Statement</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or an OFX/QFX file exported from your lender. Importing the same account again updates it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Input
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              onChange={handleFileChange}
+              data-testid="input-statement-file"
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              CSV columns: institution_name, account_name, current_balance (required), and optionally account_type,
+              interest_rate, minimum_payment, credit_limit, due_date (YYYY-MM-DD) and account_id.
+            </p>
+          </div>
+
+          {previewMutation.isPending && (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+
+          {preview?.format === "csv" && preview.headers && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Match your columns</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {preview.fields.map((field) => (
+                  <div key={field} className="flex items-center justify-between gap-2">
+                    <span className="text-sm">
+                      {fieldLabels[field] || field}
+                      {preview.requiredFields.includes(field) && <span className="text-red-600"> *</span>}
+                    </span>
+                    <Select value={mapping[field] || UNMAPPED} onValueChange={(value) => handleMappingChange(field, value)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                        {preview.headers!.filter(header => header !== "").map((header) => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {preview && preview.errors.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-900 space-y-1">
+              {preview.errors.map((error, index) => (
+                <p key={index} className="flex items-start gap-2">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {error.row > 0 ? `Row ${error.row}: ${error.message}` : error.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {preview && preview.accounts.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">APR</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.accounts.map((account) => (
+                  <TableRow key={account.providerId}>
+                    <TableCell>
+                      <div className="font-medium">{account.accountName}</div>
+                      <div className="text-xs text-gray-500">{account.institutionName}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{account.accountType.replace(/_/g, " ")}</TableCell>
+                    <TableCell className="text-right">${account.currentBalance.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">
+                      {account.interestRate !== undefined ? `${account.interestRate.toFixed(2)}%` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{account.action === "update" ? "Update" : "New"}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!preview || preview.accounts.length === 0 || importMutation.isPending || previewMutation.isPending}
+            data-testid="button-import-statement"
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import {preview?.accounts.length || 0} accounts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { ChartLine, Plus, User, ChevronDown, LogOut } from "lucide-react";
+import { ChartLine, Plus, User, ChevronDown, LogOut, Link2 } from "lucide-react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import AddAccountModal from "@/components/add-account-modal";
@@ -13,6 +14,7 @@ import {
 export default function Navbar() {
   const [isAddAccountModalOpen, setIsAddAccountModalOpen] = useState(false);
   const { user } = useAuth();
+  const [, setLocation] = useLocation();
 
   const displayName = user?.firstName && user?.lastName 
     ? `${user.firstName} ${user.lastName}` 
@@ -50,6 +52,13 @@ export default function Navbar() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuItem
+                    onClick={() => setLocation("/connections")}
+                    data-testid="link-connections"
+                  >
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Connections
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={async () => {
                       await fetch('/api/auth/logout', { method: 'POST' });
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, CalendarPlus, Copy } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PaymentEvent {
+  accountId: string;
+  date: string;
+  institutionName: string;
+  accountNickname: string;
+  accountType: string;
+  minimumPayment: number | null;
+}
+
+interface CalendarResponse {
+  month: string;
+  events: PaymentEvent[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export default function PaymentCalendar() {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const monthKey = format(month, "yyyy-MM");
+  const { data, isLoading } = useQuery<CalendarResponse>({
+    queryKey: [`/api/calendar?month=${monthKey}`],
+    retry: false,
+  });
+
+  const feedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/feed");
+      return response.json() as Promise<{ url: string }>;
+    },
+    onSuccess: (result) => {
+      setFeedUrl(result.url);
+    },
+    onError: () => {
+      toast({
+        title: "Subscription failed",
+        description: "Could not create a calendar link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const eventsByDate = (data?.events || []).reduce<Record<string, PaymentEvent[]>>((acc, event) => {
+    (acc[event.date] ||= []).push(event);
+    return acc;
+  }, {});
+
+  const days: Date[] = [];
+  for (let day = startOfWeek(month); day <= endOfWeek(endOfMonth(month)); day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const monthTotal = (data?.events || []).reduce((sum, event) => sum + (event.minimumPayment || 0), 0);
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200 mb-8">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg font-semibold text-primary">Payment Calendar</CardTitle>
+          <p className="text-sm text-secondary">
+            ${monthTotal.toLocaleString("en-US", { maximumFractionDigits: 0 })} in minimum payments this month
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setMonth(subMonths(month, 1))} data-testid="button-prev-month">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-medium w-32 text-center">{format(month, "MMMM yyyy")}</span>
+          <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, 1))} data-testid="button-next-month">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => feedMutation.mutate()}
+            disabled={feedMutation.isPending}
+            title="Creates a new link; any previous link stops working"
+            data-testid="button-subscribe-calendar"
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Subscribe
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {feedUrl && (
+          <div className="flex gap-2 mb-4">
+            <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} data-testid="input-calendar-feed" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={async () => {
+                await navigator.clipboard.writeText(feedUrl);
+                toast({ title: "Link copied", description: "Paste it into your calendar app to subscribe." });
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+          {WEEKDAYS.map(weekday => (
+            <div key={weekday} className="bg-gray-50 text-xs font-medium text-secondary text-center py-2">
+              {weekday}
+            </div>
+          ))}
+          {days.map(day => {
+            const key = format(day, "yyyy-MM-dd");
+            const events = isSameMonth(day, month) ? eventsByDate[key] || [] : [];
+            return (
+              <div
+                key={key}
+                className={`bg-white min-h-24 p-1 ${isSameMonth(day, month) ? "" : "opacity-40"}`}
+              >
+                <div className={`text-xs mb-1 ${isToday(day) ? "font-bold text-primary" : "text-secondary"}`}>
+                  {format(day, "d")}
+                </div>
+                {isLoading ? null : events.map(event => (
+                  <div
+                    key={event.accountId}
+                    className="text-xs bg-blue-50 text-blue-900 rounded px-1 py-0.5 mb-1 truncate"
+                    title={`${event.institutionName} - ${event.accountNickname}`}
+                  >
+                    {event.accountNickname}
+                    {event.minimumPayment !== null && ` · $${event.minimumPayment.toFixed(0)}`}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
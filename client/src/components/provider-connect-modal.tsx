@@ -23,14 +23,18 @@ import {
   AlertCircle,
   Loader2,
   Shield,
-  Sparkles
+  Sparkles,
+  RefreshCw,
+  FileUp
 } from "lucide-react";
+import type { DebtAccount } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 
 // Lazy load Method Connect component
 const MethodConnect = lazy(() => import("./method-connect"));
+const FileImport = lazy(() => import("./file-import"));
 
 interface ProviderConnectModalProps {
   isOpen: boolean;
@@ -45,6 +49,21 @@ interface Provider {
   supportsDemo: boolean;
 }
 
+interface PlaidConnectionStatus {
+  id: string;
+  institutionName: string;
+  needsReauth: boolean;
+  reauthReason: string | null;
+  consentExpiresAt: string | null;
+  lastSynced: string | null;
+}
+
+const reauthReasonLabels: Record<string, string> = {
+  ITEM_LOGIN_REQUIRED: "Your bank login has changed or expired",
+  PENDING_EXPIRATION: "Access to this bank is about to expire",
+  USER_PERMISSION_REVOKED: "Access was revoked at your bank",
+};
+
 interface DemoInstitution {
   name: string;
   accountTypes: string[];
@@ -54,7 +73,9 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [dataMode, setDataMode] = useState<'live' | 'demo'>('demo');
   const [plaidToken, setPlaidToken] = useState<string | null>(null);
+  const [reconnectingId, setReconnectingId] = useState<string | null>(null);
   const [showMethodConnect, setShowMethodConnect] = useState(false);
+  const [showFileImport, setShowFileImport] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -64,6 +85,17 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
     enabled: isOpen,
   });
 
+  // Plaid connections that need the user to log in again
+  const { data: plaidConnectionsData } = useQuery<{ connections: PlaidConnectionStatus[] }>({
+    queryKey: ['/api/providers/plaid/connections'],
+    enabled: isOpen,
+  });
+
+  const { data: accounts = [] } = useQuery<DebtAccount[]>({
+    queryKey: ["/api/debt-accounts"],
+    enabled: isOpen,
+  });
+
   // Fetch demo institutions
   const { data: demoInstitutions } = useQuery<{ institutions: string[] }>({
     queryKey: ['/api/providers/demo/institutions'],
@@ -115,10 +147,56 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
     },
   });
 
+  // Start Plaid Link in update mode for a broken connection
+  const reconnectMutation = useMutation({
+    mutationFn: async (connectionId: string) => {
+      const response = await apiRequest("POST", `/api/providers/plaid/connections/${connectionId}/update-token`);
+      return response.json() as Promise<{ token: string }>;
+    },
+    onSuccess: (data, connectionId) => {
+      setReconnectingId(connectionId);
+      setPlaidToken(data.token);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reconnect failed",
+        description: error.message || "Failed to start reconnecting",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Plaid Link configuration
   const { open: openPlaidLink, ready: plaidReady } = usePlaidLink({
     token: plaidToken,
     onSuccess: async (publicToken) => {
+      // Update mode keeps the existing access token, so there is nothing to exchange
+      if (reconnectingId) {
+        try {
+          const response = await apiRequest("POST", `/api/providers/plaid/connections/${reconnectingId}/reconnected`);
+          const data = await response.json();
+
+          queryClient.invalidateQueries({ queryKey: ['/api/providers/plaid/connections'] });
+          queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
+
+          toast({
+            title: "Connection repaired",
+            description: `Refreshed ${data.accountsCount} accounts`,
+          });
+        } catch (error) {
+          toast({
+            title: "Reconnect failed",
+            description: "Failed to refresh the repaired connection",
+            variant: "destructive",
+          });
+        } finally {
+          setReconnectingId(null);
+          setPlaidToken(null);
+        }
+        return;
+      }
+
       try {
         const response = await apiRequest("POST", "/api/providers/plaid/exchange-token", {
           public_token: publicToken,
@@ -144,6 +222,7 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
     },
     onExit: () => {
       setPlaidToken(null);
+      setReconnectingId(null);
     },
   });
 
@@ -187,11 +266,18 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
       return;
     }
     
+    if (source === 'file') {
+      // Statements are uploaded directly, there is nothing to connect to
+      setShowFileImport(true);
+      return;
+    }
+    
     // For real providers, initiate connection
     connectMutation.mutate({ source, mode: dataMode });
   };
 
   const providers = providersData?.providers || [];
+  const brokenConnections = (plaidConnectionsData?.connections || []).filter(c => c.needsReauth);
 
   return (
     <>
@@ -204,6 +290,51 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
           </DialogDescription>
         </DialogHeader>
 
+        {brokenConnections.length > 0 && (
+          <div className="space-y-3">
+            {brokenConnections.map((connection) => {
+              const affectedAccounts = accounts.filter(
+                a => a.syncSource === 'plaid' && a.institutionName === connection.institutionName
+              );
+              return (
+                <div
+                  key={connection.id}
+                  className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start justify-between gap-4"
+                >
+                  <div className="flex items-start gap-3">
+                    <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5" />
+                    <div>
+                      <h4 className="font-medium text-amber-900">{connection.institutionName}</h4>
+                      <p className="text-sm text-amber-800 mt-1">
+                        {reauthReasonLabels[connection.reauthReason || ""] || "This connection needs attention"}
+                      </p>
+                      {affectedAccounts.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          Affects {affectedAccounts.map(a => a.accountNickname).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => reconnectMutation.mutate(connection.id)}
+                    disabled={reconnectMutation.isPending || !!reconnectingId}
+                    data-testid={`button-reconnect-${connection.id}`}
+                  >
+                    {reconnectMutation.isPending && reconnectMutation.variables === connection.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                    )}
+                    Reconnect
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         <Tabs value={dataMode} onValueChange={(v) => setDataMode(v as 'live' | 'demo')}>
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="demo" className="flex items-center gap-2">
@@ -306,6 +437,8 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
                         <span className="flex items-center gap-2">
                           {provider.source === 'plaid' ? (
                             <Building2 className="h-5 w-5" />
+                          ) : provider.source === 'file' ? (
+                            <FileUp className="h-5 w-5" />
                           ) : (
                             <CreditCard className="h-5 w-5" />
                           )}
@@ -352,6 +485,20 @@ export default function ProviderConnectModal({ isOpen, onClose }: ProviderConnec
         </Suspense>
       </OpalProvider>
     )}
+    
+    {/* Statement upload */}
+    {showFileImport && (
+      <Suspense fallback={<div />}>
+        <FileImport
+          isOpen={showFileImport}
+          onClose={() => {
+            setShowFileImport(false);
+            setSelectedProvider(null);
+          }}
+          onSuccess={onClose}
+        />
+      </Suspense>
+    )}
     </>
   );
 }
\ No newline at end of file
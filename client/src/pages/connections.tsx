@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, ArrowLeft, Check, Loader2, Pause, Pencil, Play, RefreshCw, Unplug, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import Navbar from "@/components/navbar";
+import DisconnectDialog from "@/components/disconnect-dialog";
+import { syncErrorDescriptions } from "@/components/account-card";
+import type { DebtAccount } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+type ConnectionStatus = "active" | "paused" | "needs_reauth" | "error";
+
+interface Connection {
+  id: string;
+  source: string;
+  providerName: string;
+  institutionName: string;
+  nickname: string | null;
+  status: ConnectionStatus;
+  isActive: boolean;
+  lastSynced: string | null;
+  accountsCount: number;
+  error: { code: string | null; message: string | null; at: string } | null;
+}
+
+const statusBadges: Record<ConnectionStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-100 text-green-800" },
+  paused: { label: "Paused", className: "bg-gray-100 text-gray-700" },
+  needs_reauth: { label: "Needs login", className: "bg-amber-100 text-amber-800" },
+  error: { label: "Sync failed", className: "bg-red-100 text-red-800" },
+};
+
+const CONNECTIONS_KEY = "/api/connections";
+
+export default function Connections() {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nickname, setNickname] = useState("");
+  const [disconnecting, setDisconnecting] = useState<Connection | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ connections: Connection[] }>({
+    queryKey: [CONNECTIONS_KEY],
+    retry: false,
+  });
+  const connections = data?.connections || [];
+
+  const { data: accounts = [] } = useQuery<DebtAccount[]>({
+    queryKey: ["/api/debt-accounts"],
+    retry: false,
+  });
+
+  const handleError = (title: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/login";
+      }, 500);
+      return;
+    }
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ connection, changes }: { connection: Connection; changes: { nickname?: string | null; isActive?: boolean } }) => {
+      const response = await apiRequest("PUT", `/api/connections/${connection.source}/${connection.id}`, changes);
+      return response.json();
+    },
+    onSuccess: (_result, { changes }) => {
+      setEditingId(null);
+      if (changes.isActive !== undefined) {
+        toast({
+          title: changes.isActive ? "Syncing resumed" : "Syncing paused",
+          description: changes.isActive
+            ? "Balances will update on the next sync."
+            : "Balances stay as they are until you resume.",
+        });
+      }
+    },
+    onError: handleError("Update failed"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [CONNECTIONS_KEY] });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async (connection: Connection) => {
+      const response = await apiRequest("POST", `/api/connections/${connection.source}/${connection.id}/sync`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/debt-summary"] });
+      toast({
+        title: "Sync complete",
+        description: `${result.accountsCount} account${result.accountsCount === 1 ? "" : "s"} updated.`,
+      });
+    },
+    onError: handleError("Sync failed"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [CONNECTIONS_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-runs?latest=true"] });
+    },
+  });
+
+  const startRename = (connection: Connection) => {
+    setEditingId(connection.id);
+    setNickname(connection.nickname || connection.institutionName);
+  };
+
+  const saveRename = (connection: Connection) => {
+    const trimmed = nickname.trim();
+    // Saving the institution's own name clears the nickname
+    const value = trimmed && trimmed !== connection.institutionName ? trimmed : null;
+    updateMutation.mutate({ connection, changes: { nickname: value } });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-secondary hover:text-primary flex items-center gap-1 mb-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to dashboard
+          </Link>
+          <h2 className="text-2xl font-bold text-primary">Connections</h2>
+          <p className="text-secondary">Rename, pause, sync or disconnect the institutions your accounts come from</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : connections.length === 0 ? (
+          <Card className="bg-white shadow-sm border border-gray-200">
+            <CardContent className="py-12 text-center text-secondary">
+              No connections yet. Use Add Account to link a bank, lender or statement.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {connections.map(connection => {
+              const badge = statusBadges[connection.status];
+              const isEditing = editingId === connection.id;
+              const isUpdating = updateMutation.isPending && updateMutation.variables?.connection.id === connection.id;
+              const isSyncing = syncMutation.isPending && syncMutation.variables?.id === connection.id;
+
+              return (
+                <Card
+                  key={connection.id}
+                  className="bg-white shadow-sm border border-gray-200"
+                  data-testid={`card-connection-${connection.id}`}
+                >
+                  <CardContent className="p-5 space-y-3">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        {isEditing ? (
+                          <form
+                            className="flex items-center gap-2"
+                            onSubmit={(event) => {
+                              event.preventDefault();
+                              saveRename(connection);
+                            }}
+                          >
+                            <Input
+                              value={nickname}
+                              onChange={(event) => setNickname(event.target.value)}
+                              maxLength={100}
+                              autoFocus
+                              className="h-8 w-56"
+                              data-testid={`input-nickname-${connection.id}`}
+                            />
+                            <Button type="submit" size="sm" variant="ghost" disabled={isUpdating}>
+                              {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                            </Button>
+                            <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </form>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-primary truncate">
+                              {connection.nickname || connection.institutionName}
+                            </h3>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0"
+                              onClick={() => startRename(connection)}
+                              data-testid={`button-rename-${connection.id}`}
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                        <p className="text-sm text-secondary">
+                          {connection.nickname && `${connection.institutionName} · `}
+                          {connection.providerName} · {connection.accountsCount} account{connection.accountsCount === 1 ? "" : "s"}
+                          {" · "}
+                          {connection.lastSynced
+                            ? `synced ${formatDistanceToNow(new Date(connection.lastSynced), { addSuffix: true })}`
+                            : "never synced"}
+                        </p>
+                      </div>
+                      <Badge className={badge.className} data-testid={`badge-status-${connection.id}`}>
+                        {badge.label}
+                      </Badge>
+                    </div>
+
+                    {connection.status === "needs_reauth" && (
+                      <div className="flex items-start gap-2 rounded-md bg-amber-50 border border-amber-200 p-2 text-xs text-amber-900">
+                        <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                        <span>The bank needs you to log in again. Reconnect it from Add Account on the dashboard.</span>
+                      </div>
+                    )}
+
+                    {connection.error && (
+                      <div
+                        className="flex items-start gap-2 rounded-md bg-red-50 border border-red-200 p-2 text-xs text-red-900"
+                        title={connection.error.message || undefined}
+                        data-testid={`text-connection-error-${connection.id}`}
+                      >
+                        <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                        <span>
+                          Last sync failed {formatDistanceToNow(new Date(connection.error.at), { addSuffix: true })}.
+                          {" "}{syncErrorDescriptions[connection.error.code || ""] || "Something went wrong."}
+                        </span>
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!connection.isActive || isSyncing}
+                        onClick={() => syncMutation.mutate(connection)}
+                        data-testid={`button-sync-${connection.id}`}
+                      >
+                        <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+                        Sync now
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isUpdating}
+                        onClick={() => updateMutation.mutate({ connection, changes: { isActive: !connection.isActive } })}
+                        data-testid={`button-toggle-pause-${connection.id}`}
+                      >
+                        {connection.isActive ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                        {connection.isActive ? "Pause" : "Resume"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => setDisconnecting(connection)}
+                        data-testid={`button-disconnect-${connection.id}`}
+                      >
+                        <Unplug className="h-4 w-4 mr-2" />
+                        Disconnect
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <DisconnectDialog
+        connection={disconnecting && {
+          source: disconnecting.source,
+          connectionId: disconnecting.id,
+          institutionName: disconnecting.nickname || disconnecting.institutionName,
+        }}
+        accounts={accounts}
+        onClose={() => setDisconnecting(null)}
+      />
+    </div>
+  );
+}
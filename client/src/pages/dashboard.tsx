@@ -1,8 +1,12 @@
 import { useEffect } from "react";
+import { Link } from "wouter";
+import { Calculator } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import Navbar from "@/components/navbar";
 import DebtSummary from "@/components/debt-summary";
+import PaymentCalendar from "@/components/payment-calendar";
 import AccountList from "@/components/account-list";
 
 export default function Dashboard() {
@@ -44,9 +48,18 @@ export default function Dashboard() {
       <Navbar />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
-          <h2 className="text-2xl font-bold text-primary mb-6">Your Debt Overview</h2>
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-primary">Your Debt Overview</h2>
+            <Link href="/what-if">
+              <Button variant="outline" size="sm" data-testid="link-what-if">
+                <Calculator className="h-4 w-4 mr-2" />
+                What-if Simulator
+              </Button>
+            </Link>
+          </div>
           <DebtSummary />
         </div>
+        <PaymentCalendar />
         <AccountList />
       </main>
     </div>
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Plus, Trash2, Play, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import Navbar from "@/components/navbar";
+import type { DebtAccount } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+const MAX_SCENARIOS = 3;
+
+type AdjustmentType = "extra_monthly" | "lump_sum" | "stop_charges";
+
+interface Adjustment {
+  type: AdjustmentType;
+  accountId: string;
+  amount: string;
+  month: string;
+}
+
+interface Scenario {
+  name: string;
+  adjustments: Adjustment[];
+}
+
+interface Projection {
+  monthsToDebtFree: number | null;
+  debtFreeDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+}
+
+interface ScenarioProjection extends Projection {
+  name: string;
+  interestSaved: number;
+  monthsSaved: number | null;
+}
+
+interface SimulationResult {
+  baseline: Projection;
+  scenarios: ScenarioProjection[];
+}
+
+const adjustmentLabels: Record<AdjustmentType, string> = {
+  extra_monthly: "Extra monthly payment",
+  lump_sum: "One-time lump sum",
+  stop_charges: "Stop charging card",
+};
+
+const newAdjustment = (): Adjustment => ({ type: "extra_monthly", accountId: "", amount: "", month: "" });
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatMonths = (months: number | null) => {
+  if (months === null) return "Never";
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return years > 0 ? `${years}y ${rest}m` : `${rest}m`;
+};
+
+export default function WhatIf() {
+  const [scenarios, setScenarios] = useState<Scenario[]>([
+    { name: "Scenario 1", adjustments: [newAdjustment()] },
+  ]);
+  const [currentCharges, setCurrentCharges] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const { data: accounts = [] } = useQuery<DebtAccount[]>({
+    queryKey: ["/api/debt-accounts"],
+    retry: false,
+  });
+
+  const creditCards = accounts.filter(a => a.accountType === "credit_card" || a.accountType === "heloc");
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/payoff-plan/simulate", {
+        currentCharges: Object.entries(currentCharges)
+          .filter(([, amount]) => parseFloat(amount) > 0)
+          .map(([accountId, amount]) => ({ accountId, amount: parseFloat(amount) })),
+        scenarios: scenarios.map(scenario => ({
+          name: scenario.name,
+          adjustments: scenario.adjustments.map(adjustment => {
+            switch (adjustment.type) {
+              case "extra_monthly":
+                return { type: adjustment.type, accountId: adjustment.accountId, amount: parseFloat(adjustment.amount) };
+              case "lump_sum":
+                return {
+                  type: adjustment.type,
+                  amount: parseFloat(adjustment.amount),
+                  month: adjustment.month,
+                  accountId: adjustment.accountId || undefined,
+                };
+              case "stop_charges":
+                return { type: adjustment.type, accountId: adjustment.accountId };
+            }
+          }),
+        })),
+      });
+      return response.json() as Promise<SimulationResult>;
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Simulation failed",
+        description: "Check that every scenario has an account and amount filled in.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateScenario = (index: number, updates: Partial<Scenario>) => {
+    setScenarios(scenarios.map((scenario, i) => (i === index ? { ...scenario, ...updates } : scenario)));
+  };
+
+  const updateAdjustment = (scenarioIndex: number, adjustmentIndex: number, updates: Partial<Adjustment>) => {
+    const scenario = scenarios[scenarioIndex];
+    updateScenario(scenarioIndex, {
+      adjustments: scenario.adjustments.map((adjustment, i) =>
+        i === adjustmentIndex ? { ...adjustment, ...updates } : adjustment
+      ),
+    });
+  };
+
+  const result = simulateMutation.data;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Link href="/" className="text-sm text-secondary hover:text-primary flex items-center gap-1 mb-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to dashboard
+            </Link>
+            <h2 className="text-2xl font-bold text-primary">What-if Simulator</h2>
+            <p className="text-secondary">Compare up to {MAX_SCENARIOS} payment scenarios against your current path</p>
+          </div>
+          <Button
+            onClick={() => simulateMutation.mutate()}
+            disabled={simulateMutation.isPending || accounts.length === 0}
+            className="bg-primary text-white hover:bg-gray-800"
+            data-testid="button-run-simulation"
+          >
+            {simulateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4 mr-2" />
+            )}
+            Compare
+          </Button>
+        </div>
+
+        {creditCards.length > 0 && (
+          <Card className="bg-white shadow-sm border border-gray-200">
+            <CardHeader>
+              <CardTitle className="text-lg">Current monthly spending</CardTitle>
+              <p className="text-sm text-secondary">
+                What you put on each card today. The baseline assumes this continues.
+              </p>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {creditCards.map(card => (
+                <div key={card.id} className="space-y-1">
+                  <Label htmlFor={`charges-${card.id}`}>{card.accountNickname}</Label>
+                  <Input
+                    id={`charges-${card.id}`}
+                    type="number"
+                    min="0"
+                    placeholder="0"
+                    value={currentCharges[card.id] || ""}
+                    onChange={(e) => setCurrentCharges({ ...currentCharges, [card.id]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {scenarios.map((scenario, scenarioIndex) => (
+            <Card key={scenarioIndex} className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+                <Input
+                  value={scenario.name}
+                  onChange={(e) => updateScenario(scenarioIndex, { name: e.target.value })}
+                  className="font-semibold"
+                />
+                {scenarios.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setScenarios(scenarios.filter((_, i) => i !== scenarioIndex))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {scenario.adjustments.map((adjustment, adjustmentIndex) => (
+                  <div key={adjustmentIndex} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <Select
+                        value={adjustment.type}
+                        onValueChange={(type) => updateAdjustment(scenarioIndex, adjustmentIndex, { type: type as AdjustmentType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(adjustmentLabels).map(([type, label]) => (
+                            <SelectItem key={type} value={type}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {scenario.adjustments.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateScenario(scenarioIndex, {
+                            adjustments: scenario.adjustments.filter((_, i) => i !== adjustmentIndex),
+                          })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <Select
+                      value={adjustment.accountId}
+                      onValueChange={(accountId) => updateAdjustment(scenarioIndex, adjustmentIndex, { accountId })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={adjustment.type === "lump_sum" ? "Any account (by strategy)" : "Choose account"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(adjustment.type === "stop_charges" ? creditCards : accounts).map(account => (
+                          <SelectItem key={account.id} value={account.id}>{account.accountNickname}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {adjustment.type !== "stop_charges" && (
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="Amount"
+                          value={adjustment.amount}
+                          onChange={(e) => updateAdjustment(scenarioIndex, adjustmentIndex, { amount: e.target.value })}
+                        />
+                        {adjustment.type === "lump_sum" && (
+                          <Input
+                            type="month"
+                            min={format(new Date(), "yyyy-MM")}
+                            value={adjustment.month}
+                            onChange={(e) => updateAdjustment(scenarioIndex, adjustmentIndex, { month: e.target.value })}
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateScenario(scenarioIndex, {
+                    adjustments: [...scenario.adjustments, newAdjustment()],
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add change
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+
+          {scenarios.length < MAX_SCENARIOS && (
+            <button
+              onClick={() => setScenarios([
+                ...scenarios,
+                { name: `Scenario ${scenarios.length + 1}`, adjustments: [newAdjustment()] },
+              ])}
+              className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-secondary hover:text-primary hover:border-gray-400 flex items-center justify-center gap-2"
+              data-testid="button-add-scenario"
+            >
+              <Plus className="h-5 w-5" />
+              Add scenario
+            </button>
+          )}
+        </div>
+
+        {result && (
+          <Card className="bg-white shadow-sm border border-gray-200">
+            <CardHeader>
+              <CardTitle className="text-lg">Comparison</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-secondary border-b">
+                    <th className="py-2 pr-4 font-medium"></th>
+                    <th className="py-2 pr-4 font-medium">Current path</th>
+                    {result.scenarios.map((scenario, i) => (
+                      <th key={i} className="py-2 pr-4 font-medium">{scenario.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b">
+                    <td className="py-2 pr-4 text-secondary">Debt-free</td>
+                    <td className="py-2 pr-4">{result.baseline.debtFreeDate || "Never"}</td>
+                    {result.scenarios.map((scenario, i) => (
+                      <td key={i} className="py-2 pr-4">{scenario.debtFreeDate || "Never"}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b">
+                    <td className="py-2 pr-4 text-secondary">Time to payoff</td>
+                    <td className="py-2 pr-4">{formatMonths(result.baseline.monthsToDebtFree)}</td>
+                    {result.scenarios.map((scenario, i) => (
+                      <td key={i} className="py-2 pr-4">{formatMonths(scenario.monthsToDebtFree)}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b">
+                    <td className="py-2 pr-4 text-secondary">Total interest</td>
+                    <td className="py-2 pr-4">{formatCurrency(result.baseline.totalInterest)}</td>
+                    {result.scenarios.map((scenario, i) => (
+                      <td key={i} className="py-2 pr-4">{formatCurrency(scenario.totalInterest)}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b">
+                    <td className="py-2 pr-4 text-secondary">Interest saved</td>
+                    <td className="py-2 pr-4">—</td>
+                    {result.scenarios.map((scenario, i) => (
+                      <td key={i} className="py-2 pr-4 font-semibold text-green-700">
+                        {formatCurrency(scenario.interestSaved)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4 text-secondary">Months saved</td>
+                    <td className="py-2 pr-4">—</td>
+                    {result.scenarios.map((scenario, i) => (
+                      <td key={i} className="py-2 pr-4 font-semibold text-green-700">
+                        {scenario.monthsSaved ?? "—"}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
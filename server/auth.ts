@@ -4,7 +4,7 @@ import expressSession from 'express-session';
 import connectPgSimple from 'connect-pg-simple';
 import { storage } from './storage';
 import { z } from 'zod';
-import { config, securityConfig } from './config';
+import { config, securityConfig, getAdminUserIds } from './config';
 import { authRateLimiter, sanitizeMiddleware, logSecurityEvent, validatePasswordComplexity, passwordRequirements } from './security';
 
 // Session configuration
@@ -107,6 +107,7 @@ export function setupAuth(app: Express) {
         profileImageUrl: null,
         failedLoginAttempts: 0,
         lockedUntil: null,
+        calendarTokenHash: null,
       });
 
       // Regenerate session to prevent fixation
@@ -290,4 +291,21 @@ export const isAuthenticated = (req: Request, res: Response, next: NextFunction)
     return res.status(401).json({ message: 'Unauthorized' });
   }
   next();
-};
\ No newline at end of file
+};
+
+// Admin middleware; admins are listed by user ID in ADMIN_USER_IDS
+export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  if (!getAdminUserIds().includes(req.session.userId)) {
+    logSecurityEvent('ADMIN_ACCESS_DENIED', {
+      userId: req.session.userId,
+      path: req.path,
+      method: req.method,
+      ip: req.ip
+    });
+    return res.status(403).json({ message: 'Forbidden' });
+  }
+  next();
+};
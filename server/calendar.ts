@@ -0,0 +1,126 @@
+import { addDays, addMonths, format, getDaysInMonth, isSameMonth, startOfMonth } from 'date-fns';
+import { createHash, randomBytes } from 'crypto';
+import type { DebtAccount } from '@shared/schema';
+
+export interface PaymentEvent {
+  accountId: string;
+  date: string; // YYYY-MM-DD
+  institutionName: string;
+  accountNickname: string;
+  accountType: string;
+  minimumPayment: number | null;
+}
+
+// Feed tokens are handed out once and only their hash is stored
+export function generateCalendarToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString('hex');
+  return { token, tokenHash: hashCalendarToken(token) };
+}
+
+export function hashCalendarToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// The day of month an account is due, preferring the exact date a provider reported
+function dueDateInMonth(account: DebtAccount, month: Date): Date | null {
+  if (account.nextPaymentDueDate && isSameMonth(account.nextPaymentDueDate, month)) {
+    return account.nextPaymentDueDate;
+  }
+
+  const dueDay = account.dueDate ?? account.nextPaymentDueDate?.getDate();
+  if (!dueDay) return null;
+
+  const date = startOfMonth(month);
+  date.setDate(Math.min(dueDay, getDaysInMonth(date)));
+  return date;
+}
+
+export function paymentEventsForMonth(accounts: DebtAccount[], month: Date): PaymentEvent[] {
+  return accounts
+    .filter(account => parseFloat(account.currentBalance) > 0)
+    .map(account => {
+      const date = dueDateInMonth(account, month);
+      if (!date) return null;
+
+      return {
+        accountId: account.id,
+        date: format(date, 'yyyy-MM-dd'),
+        institutionName: account.institutionName,
+        accountNickname: account.accountNickname,
+        accountType: account.accountType,
+        minimumPayment: account.minimumPayment ? parseFloat(account.minimumPayment) : null,
+      };
+    })
+    .filter((event): event is PaymentEvent => event !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function paymentEventsForRange(accounts: DebtAccount[], start: Date, months: number): PaymentEvent[] {
+  const events: PaymentEvent[] = [];
+  for (let i = 0; i < months; i++) {
+    events.push(...paymentEventsForMonth(accounts, addMonths(start, i)));
+  }
+  return events;
+}
+
+// RFC 5545 text escaping
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 lines are limited to 75 octets of UTF-8, continued with a leading space.
+// Lines are split between characters, never inside one.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    if (octets + size > 75) {
+      chunks.push(chunk);
+      chunk = ' ';
+      octets = 1;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n');
+}
+
+export function renderICalendar(events: PaymentEvent[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Xelia//Payment Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Xelia Payments',
+  ];
+
+  for (const event of events) {
+    const day = event.date.replace(/-/g, '');
+    const nextDay = format(addDays(new Date(`${event.date}T00:00:00`), 1), 'yyyyMMdd');
+    const amount = event.minimumPayment !== null ? `$${event.minimumPayment.toFixed(2)}` : 'not set';
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.accountId}-${day}@xelia`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${day}`,
+      `DTEND;VALUE=DATE:${nextDay}`,
+      `SUMMARY:${escapeText(`Payment due: ${event.accountNickname}`)}`,
+      `DESCRIPTION:${escapeText(`${event.institutionName} - ${event.accountNickname}\nMinimum payment: ${amount}`)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
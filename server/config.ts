@@ -15,19 +15,30 @@ const envSchema = z.object({
   PLAID_CLIENT_ID: z.string().optional(),
   PLAID_SECRET: z.string().optional(),
   PLAID_ENV: z.enum(['sandbox', 'development', 'production']).optional(),
+  PLAID_BASE_URL: z.string().url().optional(), // Overrides PLAID_ENV's host, e.g. for the fake server
   
   // Method (optional - for liability data)
   METHOD_API_KEY: z.string().optional(),
   METHOD_ENV: z.enum(['dev', 'sandbox', 'production']).default('dev'),
+  METHOD_BASE_URL: z.string().url().optional(), // Overrides METHOD_ENV's host for MethodClient
+  METHOD_WEBHOOK_AUTH_TOKEN: z.string().min(16).optional(), // auth_token set when registering the webhook with Method
   
   // Server
   PORT: z.string().default('5000'),
+  PUBLIC_URL: z.string().url().optional(), // Where providers can reach the app, e.g. https://app.example.com; webhook URLs are built from it
   
   // Security
   ENCRYPTION_KEY: z.string().min(32).optional(),
+  ENCRYPTION_KEY_ID: z.string().regex(/^[A-Za-z0-9_-]+$/).default('1'), // Stamped on every value ENCRYPTION_KEY encrypts
+  ENCRYPTION_PREVIOUS_KEYS: z.string().default(''), // Retired keys still needed to decrypt, e.g. "1=<old key>,2=<older key>"
   ALLOWED_ORIGINS: z.string().default('http://localhost:5000'),
   RATE_LIMIT_WINDOW_MS: z.string().default('900000'), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: z.string().default('5'),
+  ADMIN_USER_IDS: z.string().default(''), // Comma-separated user IDs allowed to use /api/admin
+  
+  // Background sync
+  SYNC_SCHEDULER_ENABLED: z.enum(['true', 'false']).default('true'),
+  SYNC_INTERVAL_MINUTES: z.string().default(''), // Per-provider overrides, e.g. "plaid=240,demo=0" (0 turns a provider off)
   
   // Email (optional)
   SMTP_HOST: z.string().optional(),
@@ -74,6 +85,11 @@ function validateEnv() {
 // Export validated config
 export const config = validateEnv();
 
+// Absolute URL of one of the app's paths, or undefined when PUBLIC_URL isn't set. Links handed
+// to outside parties are built from it rather than from the request's Host header.
+export const getPublicUrl = (path: string): string | undefined =>
+  config.PUBLIC_URL && `${config.PUBLIC_URL.replace(/\/+$/, '')}${path}`;
+
 // Helper to get allowed origins as array
 export const getAllowedOrigins = () => {
   const origins = config.ALLOWED_ORIGINS.split(',').map(origin => origin.trim());
@@ -112,6 +128,37 @@ export const getAllowedOrigins = () => {
   return origins;
 };
 
+// Helper to get per-provider sync interval overrides
+export const getSyncIntervalOverrides = (): Map<string, number> => {
+  const overrides = new Map<string, number>();
+  for (const entry of config.SYNC_INTERVAL_MINUTES.split(',')) {
+    const [provider, minutes] = entry.split('=').map(part => part.trim());
+    if (provider && minutes && !isNaN(Number(minutes))) {
+      overrides.set(provider, Number(minutes));
+    }
+  }
+  return overrides;
+};
+
+// Helper to get retired encryption keys by key ID. Split on the first "=" since base64 keys end in "=".
+export const getPreviousEncryptionKeys = (): Map<string, string> => {
+  const keys = new Map<string, string>();
+  for (const entry of config.ENCRYPTION_PREVIOUS_KEYS.split(',')) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const id = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (id && key) {
+      keys.set(id, key);
+    }
+  }
+  return keys;
+};
+
+// Helper to get admin user IDs as array
+export const getAdminUserIds = () =>
+  config.ADMIN_USER_IDS.split(',').map(id => id.trim()).filter(Boolean);
+
 // Security configuration
 export const securityConfig = {
   bcryptRounds: 12,
@@ -0,0 +1,83 @@
+import type { DebtAccount } from '@shared/schema';
+
+// Columns that link a debt account to a provider; a merged account keeps every one of them
+export const ACCOUNT_LINK_COLUMNS = ['plaidAccountId', 'methodAccountId', 'fileAccountId', 'providerAccountId'] as const;
+
+// Providers report balances at different times, so allow a little drift between copies
+const BALANCE_TOLERANCE_PERCENT = 5;
+const BALANCE_TOLERANCE_DOLLARS = 50;
+
+export interface DuplicateMatch {
+  accountIds: [string, string];
+  confidence: 'high' | 'medium';
+  reasons: string[];
+}
+
+// "JPMorgan Chase Bank, N.A." and "Chase" should compare equal
+const INSTITUTION_NOISE = /\b(bank|card|cards|services|financial|credit|union|n\.?a\.?|inc|llc|co|corp|of america)\b/g;
+
+function normalizeInstitution(name: string): string {
+  return name.toLowerCase().replace(INSTITUTION_NOISE, ' ').replace(/[^a-z0-9]+/g, '');
+}
+
+function sameInstitution(a: string, b: string): boolean {
+  const left = normalizeInstitution(a);
+  const right = normalizeInstitution(b);
+  if (!left || !right) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  return left === right || left.includes(right) || right.includes(left);
+}
+
+function balancesClose(a: DebtAccount, b: DebtAccount): boolean {
+  const left = parseFloat(a.currentBalance);
+  const right = parseFloat(b.currentBalance);
+  const difference = Math.abs(left - right);
+  return difference <= BALANCE_TOLERANCE_DOLLARS ||
+    difference <= Math.max(left, right) * BALANCE_TOLERANCE_PERCENT / 100;
+}
+
+// Two accounts linked to different IDs at the same provider are two real accounts
+export function conflictingLinks(a: DebtAccount, b: DebtAccount): string[] {
+  return ACCOUNT_LINK_COLUMNS.filter(column => a[column] && b[column] && a[column] !== b[column]);
+}
+
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+export function matchAccounts(a: DebtAccount, b: DebtAccount): DuplicateMatch | null {
+  if (a.accountType !== b.accountType) return null;
+  if (!sameInstitution(a.institutionName, b.institutionName)) return null;
+  if (conflictingLinks(a, b).length > 0) return null;
+  // Demo data is generated per institution and never overlaps with itself
+  if (a.syncSource === 'demo' && b.syncSource === 'demo') return null;
+
+  const reasons = ['Same institution and account type'];
+  const similarBalance = balancesClose(a, b);
+
+  if (a.mask && b.mask) {
+    if (a.mask !== b.mask) return null;
+    reasons.push(`Both end in ${a.mask}`);
+    if (similarBalance) reasons.push('Similar balances');
+    return { accountIds: [a.id, b.id], confidence: 'high', reasons };
+  }
+
+  // Without account numbers to compare, only near-identical balances are worth flagging
+  if (!similarBalance) return null;
+  reasons.push('Similar balances');
+  return { accountIds: [a.id, b.id], confidence: 'medium', reasons };
+}
+
+export function findDuplicateAccounts(accounts: DebtAccount[], dismissedPairs: Set<string> = new Set()): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+
+  for (let i = 0; i < accounts.length; i++) {
+    for (let j = i + 1; j < accounts.length; j++) {
+      if (dismissedPairs.has(pairKey(accounts[i].id, accounts[j].id))) continue;
+      const match = matchAccounts(accounts[i], accounts[j]);
+      if (match) matches.push(match);
+    }
+  }
+
+  // Strongest matches first
+  return matches.sort((a, b) => (a.confidence === b.confidence ? 0 : a.confidence === 'high' ? -1 : 1));
+}
@@ -0,0 +1,163 @@
+import { readFileSync } from 'fs';
+
+// Data served by the fake Plaid and Method servers. Shapes follow the fields our clients read,
+// not the full provider APIs.
+
+export interface FakePlaidAccount {
+  account_id: string;
+  name: string;
+  mask: string | null;
+  type: 'credit' | 'loan' | 'depository';
+  subtype: string;
+  balances: { current: number; limit: number | null };
+}
+
+export interface FakePlaidTransaction {
+  transaction_id: string;
+  account_id: string;
+  amount: number; // Positive for purchases, negative for payments
+  date: string; // YYYY-MM-DD
+  name: string;
+  merchant_name: string | null;
+  pending: boolean;
+  category: string[] | null;
+}
+
+export interface FakePlaidInstitution {
+  institution_id: string;
+  name: string;
+  accounts: FakePlaidAccount[];
+  liabilities: { credit?: any[]; student?: any[]; mortgage?: any[] };
+  transactions: FakePlaidTransaction[];
+}
+
+export interface FakeMethodAccount {
+  id: string;
+  liability: {
+    type: 'credit_card' | 'auto_loan' | 'student_loan' | 'mortgage' | 'personal_loan';
+    name: string;
+    mask?: string;
+    balance: number;
+    interest_rate?: number;
+    minimum_payment?: number;
+    credit_limit?: number;
+    last_payment_date?: string;
+    next_payment_due_date?: string;
+  };
+}
+
+export interface FakeFixtures {
+  plaid: { institutions: FakePlaidInstitution[] };
+  method: { accounts: FakeMethodAccount[] };
+}
+
+export const defaultFixtures: FakeFixtures = {
+  plaid: {
+    institutions: [
+      {
+        institution_id: 'ins_fake_chase',
+        name: 'Chase',
+        accounts: [
+          {
+            account_id: 'fake_chase_card',
+            name: 'Chase Freedom',
+            mask: '4321',
+            type: 'credit',
+            subtype: 'credit card',
+            balances: { current: 1850.42, limit: 6000 },
+          },
+          {
+            account_id: 'fake_chase_checking',
+            name: 'Total Checking',
+            mask: '9876',
+            type: 'depository',
+            subtype: 'checking',
+            balances: { current: 3200, limit: null },
+          },
+        ],
+        liabilities: {
+          credit: [
+            {
+              account_id: 'fake_chase_card',
+              aprs: [
+                { apr_type: 'purchase_apr', apr_percentage: 22.49, balance_subject_to_apr: 1850.42, interest_charge_amount: 34.1 },
+                { apr_type: 'cash_apr', apr_percentage: 28.99, balance_subject_to_apr: 0, interest_charge_amount: 0 },
+              ],
+              last_payment_amount: 75,
+              last_payment_date: '2026-09-14',
+              next_payment_due_date: '2026-10-14',
+            },
+          ],
+        },
+        transactions: [
+          { transaction_id: 'fake_txn_1', account_id: 'fake_chase_card', amount: 64.12, date: '2026-09-02', name: 'Whole Foods', merchant_name: 'Whole Foods', pending: false, category: ['Shops'] },
+          { transaction_id: 'fake_txn_2', account_id: 'fake_chase_card', amount: 12.5, date: '2026-09-05', name: 'Starbucks', merchant_name: 'Starbucks', pending: false, category: ['Food and Drink'] },
+          { transaction_id: 'fake_txn_3', account_id: 'fake_chase_card', amount: -75, date: '2026-09-14', name: 'Payment - Thank You', merchant_name: null, pending: false, category: ['Payment'] },
+          { transaction_id: 'fake_txn_4', account_id: 'fake_chase_checking', amount: 75, date: '2026-09-14', name: 'Chase Card Payment', merchant_name: null, pending: false, category: ['Transfer'] },
+        ],
+      },
+      {
+        institution_id: 'ins_fake_navient',
+        name: 'Navient',
+        accounts: [
+          {
+            account_id: 'fake_navient_loan',
+            name: 'Direct Subsidized Loan',
+            mask: '1111',
+            type: 'loan',
+            subtype: 'student',
+            balances: { current: 18250, limit: null },
+          },
+        ],
+        liabilities: {
+          student: [
+            {
+              account_id: 'fake_navient_loan',
+              interest_rate_percentage: 4.53,
+              last_payment_amount: 210,
+              last_payment_date: '2026-09-20',
+              next_payment_due_date: '2026-10-20',
+            },
+          ],
+        },
+        transactions: [],
+      },
+    ],
+  },
+  method: {
+    accounts: [
+      {
+        id: 'acc_fake_amex',
+        liability: {
+          type: 'credit_card',
+          name: 'American Express',
+          mask: '1005',
+          balance: 2410.77,
+          interest_rate: 24.99,
+          minimum_payment: 72,
+          credit_limit: 12000,
+          last_payment_date: '2026-09-10',
+          next_payment_due_date: '2026-10-10',
+        },
+      },
+      {
+        id: 'acc_fake_toyota',
+        liability: {
+          type: 'auto_loan',
+          name: 'Toyota Financial',
+          mask: '5566',
+          balance: 14980,
+          interest_rate: 5.9,
+          minimum_payment: 389,
+          next_payment_due_date: '2026-10-25',
+        },
+      },
+    ],
+  },
+};
+
+// Fixtures come from a JSON file when one is given, otherwise the defaults above
+export function loadFixtures(path?: string): FakeFixtures {
+  if (!path) return structuredClone(defaultFixtures);
+  return JSON.parse(readFileSync(path, 'utf8')) as FakeFixtures;
+}
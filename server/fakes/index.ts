@@ -0,0 +1,82 @@
+import express from 'express';
+import type { Server } from 'http';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { loadFixtures, type FakeFixtures } from './fixtures';
+import { FakeState } from './state';
+import { createFakePlaidRouter } from './plaid-server';
+import { createFakeMethodRouter } from './method-server';
+
+// Local stand-ins for Plaid and Method so connect -> exchange -> sync runs offline.
+// Start with `npm run fakes`, then run the app with
+//   PLAID_BASE_URL=http://localhost:4010/plaid PLAID_CLIENT_ID=fake PLAID_SECRET=fake
+//   METHOD_BASE_URL=http://localhost:4010/method METHOD_API_KEY=fake
+
+const DEFAULT_PORT = 4010;
+
+const failureSchema = z.object({
+  provider: z.enum(['plaid', 'method']),
+  path: z.string().startsWith('/'),
+  status: z.number().int().min(400).max(599).default(400),
+  body: z.record(z.any()).default({}),
+  times: z.number().int().min(1).default(1),
+});
+
+export function createFakeProviderApp(fixtures: FakeFixtures = loadFixtures()) {
+  const initial = structuredClone(fixtures);
+  const state = new FakeState(structuredClone(initial));
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+
+  app.use('/plaid', createFakePlaidRouter(state));
+  app.use('/method', createFakeMethodRouter(state));
+
+  // Scripting endpoints for tests
+  app.get('/__fake/state', (req, res) => {
+    res.json({
+      fixtures: state.fixtures,
+      plaidItems: Array.from(state.plaidItems.values()),
+      methodEntities: Array.from(state.methodEntities.values()),
+      failures: state.failures,
+    });
+  });
+
+  // Replace the fixture data; items and entities created so far are forgotten
+  app.put('/__fake/fixtures', (req, res) => {
+    state.reset(req.body as FakeFixtures);
+    res.json({ success: true });
+  });
+
+  app.post('/__fake/reset', (req, res) => {
+    state.reset(structuredClone(initial));
+    res.json({ success: true });
+  });
+
+  // Make the next `times` calls to a path fail, e.g. with Plaid's ITEM_LOGIN_REQUIRED body
+  app.post('/__fake/failures', (req, res) => {
+    try {
+      const { times, ...failure } = failureSchema.parse(req.body);
+      state.failures.push({ ...failure, remaining: times });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ message: 'Invalid failure', errors: error instanceof z.ZodError ? error.errors : undefined });
+    }
+  });
+
+  return { app, state };
+}
+
+export function startFakeProviders(port: number = DEFAULT_PORT, fixtures?: FakeFixtures): Promise<Server> {
+  const { app } = createFakeProviderApp(fixtures);
+  return new Promise(resolve => {
+    const server = app.listen(port, () => resolve(server));
+  });
+}
+
+// Run directly: FAKE_PROVIDERS_PORT and FAKE_PROVIDERS_FIXTURES (a JSON file) are optional
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.FAKE_PROVIDERS_PORT || String(DEFAULT_PORT), 10);
+  startFakeProviders(port, loadFixtures(process.env.FAKE_PROVIDERS_FIXTURES)).then(() => {
+    console.log(`Fake Plaid at http://localhost:${port}/plaid, fake Method at http://localhost:${port}/method`);
+  });
+}
@@ -0,0 +1,77 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import type { FakeState } from './state';
+import type { FakeMethodAccount } from './fixtures';
+
+// Stand-in for the Method endpoints MethodClient calls. Point METHOD_BASE_URL at its mount path.
+// Every entity owns all fixture accounts.
+export function createFakeMethodRouter(state: FakeState): Router {
+  const router = Router();
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.get('Authorization')?.startsWith('Bearer ')) {
+      return res.status(401).json({ error: { type: 'INVALID_AUTHORIZATION', message: 'Missing API key' } });
+    }
+
+    const failure = state.takeFailure('method', req.path);
+    if (failure) {
+      return res.status(failure.status).json(failure.body);
+    }
+    next();
+  });
+
+  const toAccount = (account: FakeMethodAccount, entityId: string) => {
+    const now = new Date().toISOString();
+    return { ...account, entity_id: entityId, type: 'liability', created_at: now, updated_at: now };
+  };
+
+  const findAccount = (id: string) => state.fixtures.method.accounts.find(account => account.id === id);
+
+  // Accounts aren't tied to entities in the fixtures, so report the first entity created
+  const defaultEntityId = () => Array.from(state.methodEntities.keys())[0] || 'ent_fake_default';
+
+  const notFound = (res: Response, what: string) =>
+    res.status(404).json({ error: { type: 'INVALID_REQUEST', message: `${what} not found` } });
+
+  router.post('/entities', (req, res) => {
+    const now = new Date().toISOString();
+    const entity = { id: `ent_fake_${randomUUID()}`, ...req.body, created_at: now, updated_at: now };
+    state.methodEntities.set(entity.id, entity);
+    res.json(entity);
+  });
+
+  router.post('/elements/connect/tokens', (req, res) => {
+    if (!state.methodEntities.has(req.body?.entity_id)) return notFound(res, 'Entity');
+    res.json({
+      token: `pk_fake_${randomUUID()}`,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  // A public token of "pk_fake_<account id>" connects that account; any other picks the first
+  router.post('/elements/connect/exchange', (req, res) => {
+    const requested = findAccount(String(req.body?.public_token || '').replace(/^pk_fake_/, ''));
+    const account = requested || state.fixtures.method.accounts[0];
+    if (!account) return notFound(res, 'Account');
+    res.json({ account_id: account.id });
+  });
+
+  router.get('/entities/:entityId/accounts', (req, res) => {
+    if (!state.methodEntities.has(req.params.entityId)) return notFound(res, 'Entity');
+    res.json({ data: state.fixtures.method.accounts.map(account => toAccount(account, req.params.entityId)) });
+  });
+
+  router.get('/accounts/:accountId', (req, res) => {
+    const account = findAccount(req.params.accountId);
+    if (!account) return notFound(res, 'Account');
+    res.json(toAccount(account, defaultEntityId()));
+  });
+
+  router.post('/accounts/:accountId/sync', (req, res) => {
+    const account = findAccount(req.params.accountId);
+    if (!account) return notFound(res, 'Account');
+    res.json(toAccount(account, defaultEntityId()));
+  });
+
+  return router;
+}
@@ -0,0 +1,124 @@
+import { test, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { PlaidConnection } from '@shared/schema';
+import type { TransactionChanges } from '../providers/base';
+import type { PlaidProvider } from '../providers/plaid';
+import type { IStorage } from '../storage';
+import { createFakeProviderApp } from './index';
+
+const { app, state } = createFakeProviderApp();
+let server: Server;
+let plaid: PlaidProvider;
+let storage: IStorage;
+// Stands in for the plaid_connections table
+const connections = new Map<string, PlaidConnection>();
+
+// The Plaid client reads its base URL when first imported, so the app's modules load after the fake starts
+before(async () => {
+  server = app.listen(0);
+  process.env.PLAID_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/plaid`;
+  process.env.PLAID_CLIENT_ID = 'fake';
+  process.env.PLAID_SECRET = 'fake';
+  process.env.PUBLIC_URL = 'https://app.example.com/';
+
+  ({ storage } = await import('../storage'));
+  const { PlaidProvider } = await import('../providers/plaid');
+  plaid = new PlaidProvider();
+
+  mock.method(storage, 'createPlaidConnection', async (values: any) => {
+    const connection = { ...values, id: `conn-${connections.size + 1}`, transactionsCursor: null } as PlaidConnection;
+    connections.set(connection.id, connection);
+    return connection;
+  });
+  mock.method(storage, 'getPlaidConnection', async (id: string) => connections.get(id));
+  mock.method(storage, 'updatePlaidConnection', async (id: string, _userId: string, updates: Partial<PlaidConnection>) => {
+    const connection = { ...connections.get(id)!, ...updates };
+    connections.set(id, connection);
+    return connection;
+  });
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+beforeEach(() => {
+  connections.clear();
+});
+
+test('link tokens send webhooks to the app', async (t) => {
+  const { plaidClient } = await import('../plaid');
+  const linkTokenCreate = t.mock.method(plaidClient!, 'linkTokenCreate');
+
+  const result = await plaid.connect({ userId: 'user-1', dataMode: 'live' });
+  assert.equal(result.success, true);
+  assert.match(result.token!, /^link-fake-/);
+  assert.equal(linkTokenCreate.mock.calls[0].arguments[0].webhook, 'https://app.example.com/api/providers/plaid/webhook');
+});
+
+async function linkChase(): Promise<string> {
+  return plaid.exchangePublicToken('public-fake-ins_fake_chase', 'user-1');
+}
+
+test('exchanging a public token stores the item', async () => {
+  const connectionId = await linkChase();
+  const connection = connections.get(connectionId)!;
+
+  assert.equal(connection.institutionName, 'Chase');
+  assert.equal(connection.institutionId, 'ins_fake_chase');
+  assert.ok(state.plaidItems.has(connection.accessToken));
+});
+
+test('syncing reads liability accounts and their APRs', async () => {
+  const accounts = await plaid.syncAllAccounts(await linkChase());
+
+  // The checking account isn't a debt
+  assert.equal(accounts.length, 1);
+  const [card] = accounts;
+  assert.equal(card.providerId, 'fake_chase_card');
+  assert.equal(card.accountType, 'credit_card');
+  assert.equal(card.institutionName, 'Chase');
+  assert.equal(card.mask, '4321');
+  assert.equal(card.currentBalance, 1850.42);
+  assert.equal(card.creditLimit, 6000);
+  assert.equal(card.interestRate, 22.49);
+  assert.equal(card.nextPaymentDueDate?.toISOString().slice(0, 10), '2026-10-14');
+});
+
+test('transaction syncs resume from the saved cursor', async () => {
+  const connectionId = await linkChase();
+  const saved: TransactionChanges[] = [];
+  const save = async (changes: TransactionChanges) => {
+    saved.push(changes);
+  };
+
+  await plaid.syncTransactions(connectionId, save);
+  assert.deepEqual(saved[0].added.map(t => t.providerId), ['fake_txn_1', 'fake_txn_2', 'fake_txn_3', 'fake_txn_4']);
+  assert.equal(saved[0].added[2].amount, -75);
+  assert.equal(connections.get(connectionId)!.transactionsCursor, '4');
+
+  await plaid.syncTransactions(connectionId, save);
+  assert.equal(saved[1].added.length, 0);
+});
+
+test('ITEM_LOGIN_REQUIRED fails the sync and flags the connection', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const connectionId = await linkChase();
+  state.failures.push({
+    provider: 'plaid',
+    path: '/accounts/get',
+    status: 400,
+    body: { error_type: 'ITEM_ERROR', error_code: 'ITEM_LOGIN_REQUIRED', error_message: 'login required' },
+    remaining: 1,
+  });
+
+  await assert.rejects(plaid.syncAllAccounts(connectionId));
+  assert.equal(connections.get(connectionId)!.needsReauth, true);
+  assert.equal(connections.get(connectionId)!.reauthReason, 'ITEM_LOGIN_REQUIRED');
+
+  // The scripted failure was used up
+  assert.equal((await plaid.syncAllAccounts(connectionId)).length, 1);
+});
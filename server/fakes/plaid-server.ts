@@ -0,0 +1,150 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import type { FakeState, FakePlaidItem } from './state';
+import type { FakePlaidInstitution } from './fixtures';
+
+// Page size for /transactions/sync when the request doesn't set one
+const DEFAULT_TRANSACTIONS_COUNT = 100;
+
+function plaidError(res: Response, status: number, errorType: string, errorCode: string, message: string) {
+  res.status(status).json({
+    error_type: errorType,
+    error_code: errorCode,
+    error_message: message,
+    display_message: null,
+    request_id: randomUUID(),
+  });
+}
+
+// Stand-in for the Plaid endpoints our client calls. Point PLAID_BASE_URL at its mount path.
+export function createFakePlaidRouter(state: FakeState): Router {
+  const router = Router();
+
+  // Credentials are sent as headers by the SDK
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.get('PLAID-CLIENT-ID') || !req.get('PLAID-SECRET')) {
+      return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_API_KEYS', 'client_id and secret are required');
+    }
+
+    const failure = state.takeFailure('plaid', req.path);
+    if (failure) {
+      return res.status(failure.status).json({ request_id: randomUUID(), ...failure.body });
+    }
+    next();
+  });
+
+  const institution = (id: string): FakePlaidInstitution | undefined =>
+    state.fixtures.plaid.institutions.find(i => i.institution_id === id);
+
+  // Resolve the item for an access token, or send Plaid's error for it
+  const itemFor = (req: Request, res: Response): { item: FakePlaidItem; institution: FakePlaidInstitution } | null => {
+    const item = state.plaidItems.get(req.body?.access_token);
+    const found = item && !item.removed ? institution(item.institutionId) : undefined;
+    if (!item || item.removed || !found) {
+      plaidError(res, 400, 'INVALID_INPUT', 'INVALID_ACCESS_TOKEN', 'provided access token is in an invalid format or is not valid');
+      return null;
+    }
+    return { item, institution: found };
+  };
+
+  router.post('/link/token/create', (req, res) => {
+    res.json({
+      link_token: `link-fake-${randomUUID()}`,
+      expiration: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
+      request_id: randomUUID(),
+    });
+  });
+
+  // Like the real sandbox endpoint, stands in for finishing Plaid Link
+  router.post('/sandbox/public_token/create', (req, res) => {
+    if (!institution(req.body?.institution_id)) {
+      return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_INSTITUTION', 'unknown institution_id');
+    }
+    res.json({ public_token: `public-fake-${req.body.institution_id}`, request_id: randomUUID() });
+  });
+
+  // Public tokens are "public-fake-<institution_id>"
+  router.post('/item/public_token/exchange', (req, res) => {
+    const institutionId = String(req.body?.public_token || '').replace(/^public-fake-/, '');
+    if (!institution(institutionId)) {
+      return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_PUBLIC_TOKEN', 'provided public token is expired or invalid');
+    }
+    const item = state.addPlaidItem(institutionId);
+    res.json({ access_token: item.accessToken, item_id: item.itemId, request_id: randomUUID() });
+  });
+
+  router.post('/item/get', (req, res) => {
+    const found = itemFor(req, res);
+    if (!found) return;
+    res.json({
+      item: {
+        item_id: found.item.itemId,
+        institution_id: found.institution.institution_id,
+        webhook: null,
+        error: null,
+        available_products: [],
+        billed_products: ['liabilities', 'transactions'],
+      },
+      request_id: randomUUID(),
+    });
+  });
+
+  router.post('/item/remove', (req, res) => {
+    const found = itemFor(req, res);
+    if (!found) return;
+    found.item.removed = true;
+    res.json({ request_id: randomUUID() });
+  });
+
+  router.post('/institutions/get_by_id', (req, res) => {
+    const found = institution(req.body?.institution_id);
+    if (!found) {
+      return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_INSTITUTION', 'unknown institution_id');
+    }
+    res.json({
+      institution: { institution_id: found.institution_id, name: found.name, products: [], country_codes: ['US'] },
+      request_id: randomUUID(),
+    });
+  });
+
+  router.post('/accounts/get', (req, res) => {
+    const found = itemFor(req, res);
+    if (!found) return;
+    res.json({ accounts: found.institution.accounts, item: { item_id: found.item.itemId }, request_id: randomUUID() });
+  });
+
+  router.post('/liabilities/get', (req, res) => {
+    const found = itemFor(req, res);
+    if (!found) return;
+    res.json({
+      accounts: found.institution.accounts,
+      liabilities: { credit: null, student: null, mortgage: null, ...found.institution.liabilities },
+      item: { item_id: found.item.itemId },
+      request_id: randomUUID(),
+    });
+  });
+
+  // Cursors are offsets into the institution's transaction list
+  router.post('/transactions/sync', (req, res) => {
+    const found = itemFor(req, res);
+    if (!found) return;
+
+    const start = req.body?.cursor ? parseInt(req.body.cursor, 10) : 0;
+    const count = req.body?.count || DEFAULT_TRANSACTIONS_COUNT;
+    const added = found.institution.transactions.slice(start, start + count);
+    const next = start + added.length;
+
+    res.json({
+      transactions_update_status: 'HISTORICAL_UPDATE_COMPLETE',
+      accounts: found.institution.accounts,
+      added: added.map(transaction => ({ ...transaction, authorized_date: transaction.date })),
+      modified: [],
+      removed: [],
+      next_cursor: String(next),
+      has_more: next < found.institution.transactions.length,
+      request_id: randomUUID(),
+    });
+  });
+
+  return router;
+}
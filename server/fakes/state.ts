@@ -0,0 +1,58 @@
+import { randomUUID } from 'crypto';
+import type { FakeFixtures } from './fixtures';
+
+export type FakeProvider = 'plaid' | 'method';
+
+// An error the next matching request(s) get instead of a normal response
+export interface ScriptedFailure {
+  provider: FakeProvider;
+  path: string; // e.g. "/accounts/get" or "/accounts/acc_fake_amex"
+  status: number;
+  body: Record<string, any>;
+  remaining: number;
+}
+
+export interface FakePlaidItem {
+  itemId: string;
+  accessToken: string;
+  institutionId: string;
+  removed: boolean;
+}
+
+// Everything the fake servers remember between requests; reset between test cases
+export class FakeState {
+  fixtures: FakeFixtures;
+  plaidItems = new Map<string, FakePlaidItem>(); // By access token
+  methodEntities = new Map<string, Record<string, any>>();
+  failures: ScriptedFailure[] = [];
+
+  constructor(fixtures: FakeFixtures) {
+    this.fixtures = fixtures;
+  }
+
+  reset(fixtures: FakeFixtures) {
+    this.fixtures = fixtures;
+    this.plaidItems.clear();
+    this.methodEntities.clear();
+    this.failures = [];
+  }
+
+  addPlaidItem(institutionId: string): FakePlaidItem {
+    const item = {
+      itemId: `item-fake-${randomUUID()}`,
+      accessToken: `access-fake-${randomUUID()}`,
+      institutionId,
+      removed: false,
+    };
+    this.plaidItems.set(item.accessToken, item);
+    return item;
+  }
+
+  takeFailure(provider: FakeProvider, path: string): ScriptedFailure | undefined {
+    const failure = this.failures.find(f => f.provider === provider && f.path === path && f.remaining > 0);
+    if (!failure) return undefined;
+    failure.remaining--;
+    this.failures = this.failures.filter(f => f.remaining > 0);
+    return failure;
+  }
+}
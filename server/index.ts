@@ -3,6 +3,7 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { config } from "./config";
 import { setupSecurity, filterSensitiveData } from "./security";
+import { startSyncScheduler } from "./sync-scheduler";
 
 const app = express();
 
@@ -81,5 +82,8 @@ app.use((req, res, next) => {
       log(`📝 Environment variables loaded successfully`);
       log(`🔐 Security features enabled: Rate limiting, CORS, Helmet`);
     }
+    
+    // Keep connected accounts fresh without waiting for the sync button
+    startSyncScheduler();
   });
 })();
\ No newline at end of file
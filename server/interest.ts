@@ -0,0 +1,53 @@
+import type { AprBucket, DebtAccount, PromoPeriod } from '@shared/schema';
+
+// The promotional period in effect on a date, if any
+export function activePromo(promos: PromoPeriod[], date: Date = new Date()): PromoPeriod | undefined {
+  return promos.find(promo => promo.startDate <= date && date <= promo.endDate);
+}
+
+// One month of interest on an account. A running promo rate applies to the whole balance.
+// With APR buckets each bucket accrues at its own rate and any balance the buckets don't
+// account for accrues at the purchase APR.
+export function monthlyInterest(
+  account: DebtAccount,
+  buckets: AprBucket[] = [],
+  promos: PromoPeriod[] = [],
+  date: Date = new Date(),
+): number {
+  const balance = parseFloat(account.currentBalance);
+  const accountRate = parseFloat(account.interestRate);
+
+  const promo = activePromo(promos, date);
+  if (promo) {
+    return balance * parseFloat(promo.rate) / 100 / 12;
+  }
+
+  if (buckets.length === 0) {
+    return balance * accountRate / 100 / 12;
+  }
+
+  const purchaseRate = buckets.find(bucket => bucket.aprType === 'purchase');
+  const fallbackRate = purchaseRate ? parseFloat(purchaseRate.aprPercentage) : accountRate;
+
+  let covered = 0;
+  let interest = 0;
+  for (const bucket of buckets) {
+    if (!bucket.balance) continue;
+    const bucketBalance = parseFloat(bucket.balance);
+    covered += bucketBalance;
+    interest += bucketBalance * parseFloat(bucket.aprPercentage) / 100 / 12;
+  }
+
+  const uncovered = Math.max(0, balance - covered);
+  return interest + uncovered * fallbackRate / 100 / 12;
+}
+
+export function groupByAccount<T extends { accountId: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.accountId) || [];
+    list.push(row);
+    grouped.set(row.accountId, list);
+  }
+  return grouped;
+}
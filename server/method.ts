@@ -63,11 +63,11 @@ export class MethodClient {
       throw new Error('Method API key is not configured');
     }
     this.apiKey = config.METHOD_API_KEY;
-    // Method API base URL based on environment
+    // Method API base URL based on environment, unless overridden (e.g. by the fake server)
     const methodEnv = getMethodEnvironment();
-    this.baseUrl = methodEnv === Environments.production 
+    this.baseUrl = config.METHOD_BASE_URL?.replace(/\/$/, '') || (methodEnv === Environments.production 
       ? 'https://api.methodfi.com' 
-      : 'https://sandbox.methodfi.com';
+      : 'https://sandbox.methodfi.com');
   }
 
   // Helper method for API requests
@@ -194,6 +194,7 @@ export class MethodClient {
       interestRate: (liability.interest_rate || 0).toFixed(2),
       minimumPayment: liability.minimum_payment?.toFixed(2) || null,
       creditLimit: liability.credit_limit?.toFixed(2) || null,
+      nextPaymentDueDate: liability.next_payment_due_date ? new Date(liability.next_payment_due_date) : null,
       isManual: false,
       lastSynced: new Date(),
     };
@@ -0,0 +1,353 @@
+import { addMonths, differenceInCalendarMonths, format, getDaysInMonth, startOfMonth } from 'date-fns';
+import type { DebtAccount, PromoPeriod } from '@shared/schema';
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+// Simulations stop after 50 years so a debt that never shrinks can't loop forever
+export const MAX_SIMULATION_MONTHS = 600;
+
+export interface PayoffDebt {
+  id: string;
+  name: string;
+  institutionName: string;
+  balance: number;
+  interestRate: number; // APR as a percentage, e.g. 19.99
+  minimumPayment: number;
+  extraPayment?: number; // Paid on top of the budget every month until this debt is gone
+  monthlyCharges?: number; // New spending added each month while a balance is carried
+  promos?: PromoRate[]; // interestRate is the go-to rate that applies outside these periods
+}
+
+export interface PromoRate {
+  rate: number;
+  startDate: Date;
+  endDate: Date;
+  deferredInterest: boolean;
+}
+
+export interface LumpSum {
+  month: number; // 1 is the first simulated month
+  amount: number;
+  accountId?: string; // Falls back to the strategy's priority order when omitted
+}
+
+export interface PayoffOptions {
+  strategy: PayoffStrategy;
+  monthlyBudget?: number; // Defaults to the sum of minimum payments
+  customOrder?: string[]; // Account IDs in priority order for the custom strategy
+  lumpSums?: LumpSum[];
+  startDate?: Date;
+}
+
+export interface AccountPayoff {
+  accountId: string;
+  accountNickname: string;
+  institutionName: string;
+  startingBalance: number;
+  payoffMonth: number | null; // null when the account is never paid off
+  payoffDate: string | null;
+  interestPaid: number;
+  totalPaid: number;
+}
+
+export interface PayoffMonth {
+  month: number;
+  date: string;
+  payment: number;
+  interest: number;
+  remainingBalance: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  monthlyBudget: number;
+  totalMinimumPayments: number;
+  monthsToDebtFree: number | null;
+  debtFreeDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+  payoffOrder: AccountPayoff[];
+  timeline: PayoffMonth[];
+}
+
+export const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatMonth = (startDate: Date, month: number) => format(addMonths(startDate, month), 'yyyy-MM');
+
+// Convert stored debt accounts into the numeric shape the simulator works with
+export function toPayoffDebts(accounts: DebtAccount[], promos: PromoPeriod[] = []): PayoffDebt[] {
+  return accounts
+    .map(account => ({
+      id: account.id,
+      name: account.accountNickname,
+      institutionName: account.institutionName,
+      balance: parseFloat(account.currentBalance),
+      interestRate: parseFloat(account.interestRate),
+      minimumPayment: account.minimumPayment ? parseFloat(account.minimumPayment) : 0,
+      promos: promos
+        .filter(promo => promo.accountId === account.id)
+        .map(promo => ({
+          rate: parseFloat(promo.rate),
+          startDate: promo.startDate,
+          endDate: promo.endDate,
+          deferredInterest: promo.deferredInterest ?? false,
+        })),
+    }))
+    .filter(debt => debt.balance > 0);
+}
+
+// Tracks interest a deferred-interest promo is holding back, charged if the promo ends with a balance
+interface InterestAccrual {
+  deferred: number;
+}
+
+// Deferred interest already built up before the simulation starts. Past balances aren't
+// known, so the current balance is assumed to have been carried since the promo began.
+function startAccrual(debt: PayoffDebt, startDate: Date): InterestAccrual {
+  const promo = debt.promos?.find(p => p.deferredInterest && p.startDate <= startDate && startDate <= p.endDate);
+  if (!promo) {
+    return { deferred: 0 };
+  }
+  const monthsElapsed = differenceInCalendarMonths(startDate, promo.startDate);
+  return { deferred: debt.balance * debt.interestRate / 100 / 12 * monthsElapsed };
+}
+
+// One month of interest starting on periodStart, at the promo rate while one runs and the
+// go-to rate after. Deferred interest lands in the first month after its promo ends.
+function accrueInterest(debt: PayoffDebt, balance: number, periodStart: Date, accrual: InterestAccrual): number {
+  const promo = debt.promos?.find(p => p.startDate <= periodStart && periodStart <= p.endDate);
+  const rate = promo ? promo.rate : debt.interestRate;
+  let interest = roundCents(balance * rate / 100 / 12);
+
+  if (promo?.deferredInterest) {
+    accrual.deferred += balance * debt.interestRate / 100 / 12;
+  } else if (accrual.deferred > 0) {
+    interest = roundCents(interest + accrual.deferred);
+    accrual.deferred = 0;
+  }
+
+  return interest;
+}
+
+// Order debts by the priority in which extra money should be applied
+export function orderDebts(debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: string[] = []): PayoffDebt[] {
+  const avalanche = (a: PayoffDebt, b: PayoffDebt) =>
+    b.interestRate - a.interestRate || a.balance - b.balance;
+  const snowball = (a: PayoffDebt, b: PayoffDebt) =>
+    a.balance - b.balance || b.interestRate - a.interestRate;
+
+  switch (strategy) {
+    case 'snowball':
+      return [...debts].sort(snowball);
+    case 'custom': {
+      // Listed accounts go first in the given order, anything unlisted falls back to avalanche
+      const rank = (debt: PayoffDebt) => {
+        const index = customOrder.indexOf(debt.id);
+        return index === -1 ? customOrder.length : index;
+      };
+      return [...debts].sort((a, b) => rank(a) - rank(b) || avalanche(a, b));
+    }
+    case 'avalanche':
+    default:
+      return [...debts].sort(avalanche);
+  }
+}
+
+export function simulatePayoff(debts: PayoffDebt[], options: PayoffOptions): PayoffPlan {
+  const startDate = options.startDate || new Date();
+  const ordered = orderDebts(debts, options.strategy, options.customOrder);
+  const totalMinimumPayments = roundCents(ordered.reduce((sum, debt) => sum + debt.minimumPayment, 0));
+  const monthlyBudget = options.monthlyBudget ?? totalMinimumPayments;
+
+  const balances = ordered.map(debt => debt.balance);
+  const accruals = ordered.map(debt => startAccrual(debt, startDate));
+  const interestPaid = ordered.map(() => 0);
+  const totalPaid = ordered.map(() => 0);
+  const payoffMonths: (number | null)[] = ordered.map(() => null);
+  const timeline: PayoffMonth[] = [];
+
+  let month = 0;
+  while (balances.some(balance => balance > 0) && month < MAX_SIMULATION_MONTHS) {
+    month++;
+    let monthInterest = 0;
+    let monthPayment = 0;
+
+    // Accrue a month of interest and new charges on every open balance. Once a card is
+    // paid off its charges are assumed to be paid in full and leave the simulation.
+    const periodStart = addMonths(startDate, month - 1);
+    ordered.forEach((debt, i) => {
+      if (balances[i] <= 0) return;
+      const interest = accrueInterest(debt, balances[i], periodStart, accruals[i]);
+      balances[i] = roundCents(balances[i] + interest + (debt.monthlyCharges || 0));
+      interestPaid[i] += interest;
+      monthInterest += interest;
+    });
+
+    const pay = (i: number, amount: number) => {
+      const payment = roundCents(Math.min(amount, balances[i]));
+      balances[i] = roundCents(balances[i] - payment);
+      totalPaid[i] += payment;
+      monthPayment += payment;
+      return payment;
+    };
+
+    // Minimums first, then targeted extras and lump sums, then whatever is left goes to the
+    // highest priority debt. Extras for a debt that is already gone roll into that pool.
+    let available = monthlyBudget;
+    ordered.forEach((debt, i) => {
+      if (balances[i] > 0) {
+        available -= pay(i, debt.minimumPayment);
+      }
+    });
+
+    ordered.forEach((debt, i) => {
+      if (!debt.extraPayment) return;
+      available += debt.extraPayment;
+      if (balances[i] > 0) {
+        available -= pay(i, debt.extraPayment);
+      }
+    });
+
+    (options.lumpSums || [])
+      .filter(lumpSum => lumpSum.month === month)
+      .forEach(lumpSum => {
+        available += lumpSum.amount;
+        const i = ordered.findIndex(debt => debt.id === lumpSum.accountId);
+        if (i !== -1 && balances[i] > 0) {
+          available -= pay(i, lumpSum.amount);
+        }
+      });
+
+    for (let i = 0; i < ordered.length && available > 0.005; i++) {
+      if (balances[i] > 0) {
+        available -= pay(i, available);
+      }
+    }
+
+    balances.forEach((balance, i) => {
+      if (balance <= 0 && payoffMonths[i] === null) {
+        payoffMonths[i] = month;
+      }
+    });
+
+    timeline.push({
+      month,
+      date: formatMonth(startDate, month),
+      payment: roundCents(monthPayment),
+      interest: roundCents(monthInterest),
+      remainingBalance: roundCents(balances.reduce((sum, balance) => sum + balance, 0)),
+    });
+  }
+
+  const payoffOrder: AccountPayoff[] = ordered
+    .map((debt, i) => ({
+      accountId: debt.id,
+      accountNickname: debt.name,
+      institutionName: debt.institutionName,
+      startingBalance: debt.balance,
+      payoffMonth: payoffMonths[i],
+      payoffDate: payoffMonths[i] !== null ? formatMonth(startDate, payoffMonths[i]!) : null,
+      interestPaid: roundCents(interestPaid[i]),
+      totalPaid: roundCents(totalPaid[i]),
+    }))
+    .sort((a, b) => (a.payoffMonth ?? Infinity) - (b.payoffMonth ?? Infinity));
+
+  const debtFree = balances.every(balance => balance <= 0);
+
+  return {
+    strategy: options.strategy,
+    monthlyBudget: roundCents(monthlyBudget),
+    totalMinimumPayments,
+    monthsToDebtFree: debtFree ? month : null,
+    debtFreeDate: debtFree ? formatMonth(startDate, month) : null,
+    totalInterest: roundCents(interestPaid.reduce((sum, interest) => sum + interest, 0)),
+    totalPaid: roundCents(totalPaid.reduce((sum, paid) => sum + paid, 0)),
+    payoffOrder,
+    timeline,
+  };
+}
+
+export const INSTALLMENT_ACCOUNT_TYPES = ['auto_loan', 'mortgage', 'student_loan', 'personal_loan'];
+
+export interface AmortizationPayment {
+  paymentNumber: number;
+  date: string;
+  payment: number;
+  principal: number;
+  interest: number;
+  remainingBalance: number;
+}
+
+export interface AmortizationSchedule {
+  monthlyPayment: number;
+  extraPrincipal: number;
+  numberOfPayments: number;
+  payoffDate: string;
+  totalInterest: number;
+  totalPaid: number;
+  schedule: AmortizationPayment[];
+}
+
+// Date of the Nth payment, with the due day clamped to short months
+export function paymentDate(dueDay: number | null, startDate: Date, paymentNumber: number): Date {
+  if (!dueDay) {
+    return addMonths(startDate, paymentNumber);
+  }
+
+  // The first payment is the next due date strictly after the start date
+  const dueThisMonth = Math.min(dueDay, getDaysInMonth(startDate));
+  const firstOffset = startDate.getDate() < dueThisMonth ? 0 : 1;
+  const month = startOfMonth(addMonths(startDate, firstOffset + paymentNumber - 1));
+  month.setDate(Math.min(dueDay, getDaysInMonth(month)));
+  return month;
+}
+
+// Returns null when the payment does not cover the first month's interest. Promo periods
+// are followed, so the schedule may stall if the go-to rate outgrows the payment.
+export function buildAmortizationSchedule(
+  debt: PayoffDebt,
+  options: { dueDay?: number | null; extraPrincipal?: number; startDate?: Date } = {},
+): AmortizationSchedule | null {
+  const startDate = options.startDate || new Date();
+  const extraPrincipal = options.extraPrincipal || 0;
+  const monthlyPayment = debt.minimumPayment + extraPrincipal;
+  const accrual = startAccrual(debt, startDate);
+
+  if (monthlyPayment <= accrueInterest(debt, debt.balance, startDate, { deferred: 0 })) {
+    return null;
+  }
+
+  const schedule: AmortizationPayment[] = [];
+  let balance = debt.balance;
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  while (balance > 0 && schedule.length < MAX_SIMULATION_MONTHS) {
+    const periodStart = addMonths(startDate, schedule.length);
+    const interest = accrueInterest(debt, balance, periodStart, accrual);
+    const payment = roundCents(Math.min(monthlyPayment, balance + interest));
+    const principal = roundCents(payment - interest);
+    balance = roundCents(balance - principal);
+    totalInterest += interest;
+    totalPaid += payment;
+
+    schedule.push({
+      paymentNumber: schedule.length + 1,
+      date: format(paymentDate(options.dueDay ?? null, startDate, schedule.length + 1), 'yyyy-MM-dd'),
+      payment,
+      principal,
+      interest,
+      remainingBalance: balance,
+    });
+  }
+
+  return {
+    monthlyPayment: roundCents(monthlyPayment),
+    extraPrincipal: roundCents(extraPrincipal),
+    numberOfPayments: schedule.length,
+    payoffDate: schedule.length > 0 ? schedule[schedule.length - 1].date : format(startDate, 'yyyy-MM-dd'),
+    totalInterest: roundCents(totalInterest),
+    totalPaid: roundCents(totalPaid),
+    schedule,
+  };
+}
@@ -1,11 +1,13 @@
 import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from 'plaid';
+import { getPublicUrl } from './config';
 
 // Only initialize Plaid client if credentials are provided
 let plaidClient: PlaidApi | null = null;
 
-if (process.env.PLAID_CLIENT_ID && process.env.PLAID_SECRET && process.env.PLAID_ENV) {
+// PLAID_BASE_URL points the client somewhere else, such as the fake server in server/fakes
+if (process.env.PLAID_CLIENT_ID && process.env.PLAID_SECRET && (process.env.PLAID_ENV || process.env.PLAID_BASE_URL)) {
   const configuration = new Configuration({
-    basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments],
+    basePath: process.env.PLAID_BASE_URL || PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments],
     baseOptions: {
       headers: {
         'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID,
@@ -20,4 +22,16 @@ if (process.env.PLAID_CLIENT_ID && process.env.PLAID_SECRET && process.env.PLAID
 export { plaidClient };
 
 export const PLAID_PRODUCTS = [Products.Liabilities] as Products[];
-export const PLAID_COUNTRY_CODES = [CountryCode.Us] as CountryCode[];
\ No newline at end of file
+// Requested when the institution supports it; card activity is useful but not required
+export const PLAID_OPTIONAL_PRODUCTS = [Products.Transactions] as Products[];
+export const PLAID_COUNTRY_CODES = [CountryCode.Us] as CountryCode[];
+
+// Where Plaid sends an item's webhooks. Built from PUBLIC_URL rather than taken from the client,
+// so a user can't point their item's webhooks elsewhere; without it items get no webhooks.
+export function plaidWebhookUrl(): string | undefined {
+  return getPublicUrl('/api/providers/plaid/webhook');
+}
+// Plaid API errors carry their code in the response body
+export function plaidErrorCode(error: any): string | undefined {
+  return error?.response?.data?.error_code;
+}
@@ -0,0 +1,110 @@
+import { addMonths, differenceInCalendarDays, format, subMonths } from 'date-fns';
+import type { BalanceSnapshot, Payment } from '@shared/schema';
+import { simulatePayoff, roundCents, type PayoffDebt } from './payoff';
+import { findBalanceDrops } from './reconciliation';
+
+// How far back to look when working out what the user actually pays each month
+export const RECENT_PAYMENT_MONTHS = 3;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export interface NeverPaysOffAccount {
+  accountId: string;
+  accountNickname: string;
+  institutionName: string;
+  monthlyPayment: number;
+}
+
+export interface DebtFreeProjection {
+  monthlyPayment: number;
+  monthsToDebtFree: number | null; // null when any account never pays off
+  debtFreeDate: string | null;
+  totalInterest: number; // Interest on the accounts that do pay off
+  neverPaysOff: NeverPaysOffAccount[];
+}
+
+export interface RecentPaymentHistory {
+  payments: Payment[];
+  snapshots: BalanceSnapshot[];
+}
+
+// Each account is paid on its own at the given monthly amount; money freed up by a paid-off
+// account is not rolled into the others, which is what "just keep paying" looks like.
+export function projectDebtFree(
+  debts: PayoffDebt[],
+  monthlyPayments: Map<string, number>,
+  startDate: Date = new Date(),
+): DebtFreeProjection {
+  let monthsToDebtFree = 0;
+  let totalInterest = 0;
+  let monthlyPayment = 0;
+  const neverPaysOff: NeverPaysOffAccount[] = [];
+
+  for (const debt of debts) {
+    const payment = monthlyPayments.get(debt.id) ?? debt.minimumPayment;
+    monthlyPayment += payment;
+
+    // A payment that doesn't cover the interest can only stall out at the simulation limit
+    const plan = simulatePayoff([{ ...debt, minimumPayment: payment }], { strategy: 'avalanche', startDate });
+    const [payoff] = plan.payoffOrder;
+
+    if (payoff.payoffMonth === null) {
+      neverPaysOff.push({
+        accountId: debt.id,
+        accountNickname: debt.name,
+        institutionName: debt.institutionName,
+        monthlyPayment: roundCents(payment),
+      });
+      continue;
+    }
+
+    monthsToDebtFree = Math.max(monthsToDebtFree, payoff.payoffMonth);
+    totalInterest += payoff.interestPaid;
+  }
+
+  const debtFree = neverPaysOff.length === 0;
+
+  return {
+    monthlyPayment: roundCents(monthlyPayment),
+    monthsToDebtFree: debtFree ? monthsToDebtFree : null,
+    debtFreeDate: debtFree ? format(addMonths(startDate, monthsToDebtFree), 'yyyy-MM') : null,
+    totalInterest: roundCents(totalInterest),
+    neverPaysOff,
+  };
+}
+
+// Average monthly payment over the recent window. Logged payments are used where there are
+// any; otherwise balance drops between syncs stand in for them. A drop is what was left of a
+// payment after that period's interest, so the interest is added back; otherwise the projection
+// would charge it twice. Returns null with no history.
+export function recentMonthlyPayment(
+  history: RecentPaymentHistory,
+  accountCreatedAt: Date | null,
+  interestRate: number, // APR in percent
+  now: Date = new Date(),
+): number | null {
+  let windowStart = subMonths(now, RECENT_PAYMENT_MONTHS);
+  if (accountCreatedAt && accountCreatedAt > windowStart) {
+    windowStart = accountCreatedAt;
+  }
+  const months = Math.max(1, differenceInCalendarDays(now, windowStart) / DAYS_PER_MONTH);
+
+  const payments = history.payments.filter(payment =>
+    payment.status !== 'failed' && payment.paymentDate >= windowStart && payment.paymentDate <= now
+  );
+  if (payments.length > 0) {
+    const total = payments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+    return roundCents(total / months);
+  }
+
+  const snapshots = history.snapshots.filter(snapshot => snapshot.recordedAt >= windowStart);
+  if (snapshots.length < 2) {
+    return null;
+  }
+  const dailyRate = interestRate / 100 / 365;
+  const total = findBalanceDrops(snapshots).reduce((sum, drop) => {
+    const interest = drop.previousBalance * dailyRate * differenceInCalendarDays(drop.to, drop.from);
+    return sum + drop.amount + interest;
+  }, 0);
+  return roundCents(total / months);
+}
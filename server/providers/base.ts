@@ -1,15 +1,27 @@
-import { DebtAccount } from "@shared/schema";
+import { DebtAccount, InsertDebtAccount } from "@shared/schema";
 
-export type DataSource = 'plaid' | 'method' | 'demo' | 'manual';
+// Built-in sources are listed for readability; any registered provider ID is valid
+export type DataSource = 'plaid' | 'method' | 'demo' | 'file' | 'manual' | (string & {});
 export type DataMode = 'live' | 'test' | 'demo';
 
+export type AprType = 'purchase' | 'cash_advance' | 'balance_transfer' | 'special';
+
+export interface AprData {
+  type: AprType;
+  rate: number;
+  balance?: number; // Balance subject to this APR
+  interestCharge?: number;
+}
+
 export interface AccountData {
   providerId: string; // Provider's account ID
   institutionName: string;
   accountName: string;
   accountType: 'credit_card' | 'auto_loan' | 'student_loan' | 'mortgage' | 'personal_loan' | 'heloc';
+  mask?: string; // Last 4 digits of the account number
   currentBalance: number;
   interestRate?: number;
+  aprs?: AprData[]; // Every APR bucket when the provider reports more than a single rate
   minimumPayment?: number;
   creditLimit?: number;
   lastPaymentDate?: Date;
@@ -19,22 +31,83 @@ export interface AccountData {
   raw?: any; // Raw data from provider
 }
 
+export interface TransactionData {
+  providerId: string; // Provider's transaction ID
+  providerAccountId: string; // AccountData.providerId of the account it belongs to
+  date: Date;
+  amount: number; // Positive for charges, negative for payments and credits
+  description: string;
+  merchantName?: string;
+  category?: string;
+  pending: boolean;
+}
+
+// Changes since the previous transaction sync of a connection
+export interface TransactionChanges {
+  added: TransactionData[];
+  modified: TransactionData[];
+  removed: string[]; // Provider transaction IDs
+}
+
 export interface ConnectionMetadata {
   id: string;
   userId: string;
   provider: DataSource;
   dataMode: DataMode;
   institutionName?: string;
-  isActive: boolean;
+  nickname?: string | null;
+  isActive: boolean; // False while paused
   lastSynced?: Date | null;
   metadata?: Record<string, any>;
 }
 
+export interface ProviderCapabilities {
+  webhooks: boolean; // Pushes changes to us instead of only being polled
+  demo: boolean; // Can run against sandbox or demo data
+  perAccountSync: boolean; // Can refresh one account without syncing the whole connection
+}
+
+// What the user can change about a connection
+export interface ConnectionChanges {
+  nickname?: string | null;
+  isActive?: boolean;
+}
+
+// Where a provider keeps its connections and how its accounts link to debt_accounts rows
+export interface ConnectionStore {
+  list(userId: string): Promise<ConnectionMetadata[]>; // Paused connections included
+  // Null when the user has no such connection
+  update(userId: string, connectionId: string, changes: ConnectionChanges): Promise<ConnectionMetadata | null>;
+  findForAccount(account: DebtAccount): Promise<ConnectionMetadata | null>;
+  // The provider's ID for a stored account, passed to syncAccount
+  accountId(account: DebtAccount): string | null;
+  matches(existing: DebtAccount, account: AccountData): boolean;
+  // Columns that link a saved account back to the provider
+  accountLink(account: AccountData): Partial<InsertDebtAccount>;
+}
+
+export interface ProviderRegistration {
+  provider: LiabilityProvider; // getName() is the provider's ID
+  displayName: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  connections: ConnectionStore;
+  syncIntervalMinutes?: number; // Background sync cadence; omitted for providers that can't be polled
+}
+
+// Account linking for providers without a dedicated column on debt_accounts. The column is shared,
+// so the provider is stored next to the ID.
+export const providerAccountIdLink = (provider: string): Pick<ConnectionStore, 'accountId' | 'matches' | 'accountLink'> => ({
+  accountId: account => account.providerAccountId,
+  matches: (existing, account) =>
+    existing.providerAccountSource === provider && existing.providerAccountId === account.providerId,
+  accountLink: account => ({ providerAccountId: account.providerId, providerAccountSource: provider }),
+});
+
 export interface ConnectOptions {
   userId: string;
   dataMode: DataMode;
   redirectUrl?: string;
-  webhookUrl?: string;
   products?: string[];
 }
 
@@ -60,7 +133,8 @@ export abstract class LiabilityProvider {
   
   abstract connect(options: ConnectOptions): Promise<ConnectResult>;
   
-  abstract disconnect(connectionId: string): Promise<boolean>;
+  // Removes the connection; false when it doesn't exist or belongs to someone else
+  abstract disconnect(connectionId: string, userId: string): Promise<boolean>;
   
   abstract getAccounts(connectionId: string): Promise<AccountData[]>;
   
@@ -68,6 +142,10 @@ export abstract class LiabilityProvider {
   
   abstract syncAllAccounts(connectionId: string): Promise<AccountData[]>;
   
+  // Providers that report transactions pass everything new since the last call to `save`,
+  // and only advance their position once it resolves
+  syncTransactions?(connectionId: string, save: (changes: TransactionChanges) => Promise<void>): Promise<void>;
+  
   // Helper to convert provider data to our schema
   protected toAccountData(account: any, provider: DataSource): AccountData {
     // Default implementation - providers can override
@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { format } from 'date-fns';
+import type { DemoConnection } from '@shared/schema';
+import { storage } from '../storage';
+import { simulateDemoAccount, type DemoAccount } from './demo-simulation';
+import { DemoProvider, simulatedNow } from './demo';
+
+const SEED = 7;
+const START = new Date(2024, 0, 1);
+const END = new Date(2024, 3, 1);
+
+const card: DemoAccount = {
+  id: 'test_card',
+  institution: 'Test Bank',
+  name: 'Test Card',
+  type: 'credit_card',
+  balance: 1000,
+  interestRate: 24,
+  minimumPayment: 40,
+  creditLimit: 3000,
+  daysUntilDue: 10,
+};
+
+const loan: DemoAccount = {
+  id: 'test_loan',
+  institution: 'Test Bank',
+  name: 'Test Loan',
+  type: 'auto_loan',
+  balance: 10000,
+  interestRate: 6,
+  minimumPayment: 300,
+  daysUntilDue: 5,
+};
+
+const day = (date: Date | undefined) => date && format(date, 'yyyy-MM-dd');
+
+test('a card plays out the same way for a given seed and dates', () => {
+  const simulation = simulateDemoAccount(card, SEED, START, END);
+
+  assert.equal(simulation.balance, 1055.38);
+  assert.equal(simulation.minimumPayment, 30.29);
+  assert.equal(day(simulation.lastPaymentDate), '2024-03-11');
+  assert.equal(day(simulation.nextPaymentDueDate), '2024-04-11');
+
+  assert.equal(simulation.transactions.length, 20);
+  assert.deepEqual(
+    simulation.transactions.slice(0, 4).map(t => [day(t.date), t.amount, t.description]),
+    [
+      ['2024-01-06', 3.19, 'Pharmacy'],
+      ['2024-01-09', 4.89, 'Utility Bill'],
+      ['2024-01-11', 6.59, 'Interest Charge'],
+      ['2024-01-11', -25, 'Payment - Thank You'],
+    ],
+  );
+  // Interest is charged and the minimum paid on the due day every month
+  assert.deepEqual(
+    simulation.transactions.filter(t => t.category === 'Payment').map(t => [day(t.date), t.amount]),
+    [['2024-01-11', -25], ['2024-02-11', -31.19], ['2024-03-11', -30.39]],
+  );
+});
+
+test('card transactions account for the whole balance change', () => {
+  const simulation = simulateDemoAccount(card, SEED, START, END);
+  const cents = simulation.transactions.reduce((sum, t) => sum + Math.round(t.amount * 100), 0);
+  assert.equal(Math.round(card.balance * 100) + cents, Math.round(simulation.balance * 100));
+});
+
+test('moving the end date later keeps what already happened', () => {
+  const shorter = simulateDemoAccount(card, SEED, START, END);
+  const longer = simulateDemoAccount(card, SEED, START, new Date(2024, 6, 1));
+  assert.deepEqual(longer.transactions.slice(0, shorter.transactions.length), shorter.transactions);
+
+  assert.notDeepEqual(simulateDemoAccount(card, SEED + 1, START, END).transactions, shorter.transactions);
+});
+
+test('loans pay their fixed minimum without card activity', () => {
+  const simulation = simulateDemoAccount(loan, SEED, START, END);
+
+  assert.equal(simulation.balance, 9202.78);
+  assert.equal(simulation.minimumPayment, 300);
+  assert.equal(day(simulation.lastPaymentDate), '2024-03-06');
+  assert.equal(day(simulation.nextPaymentDueDate), '2024-04-06');
+  assert.deepEqual(simulation.transactions, []);
+});
+
+test('demo accounts follow the connection clock', async (t) => {
+  const connection = {
+    id: 'demo-1',
+    userId: 'user-1',
+    institutionName: 'Chase Bank',
+    nickname: null,
+    isActive: true,
+    simulationSeed: SEED,
+    simulationStart: START,
+    clockOffsetMonths: 2,
+    lastSynced: null,
+    createdAt: START,
+  } as DemoConnection;
+  t.mock.method(storage, 'getDemoConnection', async () => connection);
+  t.mock.timers.enable({ apis: ['Date'], now: new Date(2024, 1, 1) });
+
+  // Two months ahead of February 1st
+  assert.equal(day(simulatedNow(connection)), '2024-04-01');
+
+  const accounts = await new DemoProvider().getAccounts(connection.id);
+  const freedom = accounts.find(a => a.providerId === 'demo_chase_freedom')!;
+  assert.equal(freedom.currentBalance, 3121.17);
+  assert.equal(freedom.minimumPayment, 78.76);
+  assert.equal(day(freedom.nextPaymentDueDate), '2024-04-13');
+
+  // The same as simulating from the connection's start to the simulated date
+  const expected = simulateDemoAccount(freedom.raw, SEED, START, END);
+  assert.equal(freedom.currentBalance, expected.balance);
+  assert.equal(day(freedom.lastPaymentDate), day(expected.lastPaymentDate));
+
+  // Jumping the clock another month on plays out the extra month
+  connection.clockOffsetMonths = 3;
+  const later = (await new DemoProvider().getAccounts(connection.id)).find(a => a.providerId === 'demo_chase_freedom')!;
+  assert.equal(day(later.nextPaymentDueDate), '2024-05-13');
+  assert.equal(later.currentBalance, simulateDemoAccount(freedom.raw, SEED, START, new Date(2024, 4, 1)).balance);
+});
@@ -0,0 +1,160 @@
+import { addDays, addMonths, differenceInCalendarDays, format, setDate, startOfDay } from 'date-fns';
+import type { AccountData, TransactionData } from './base';
+
+export interface DemoAccount {
+  id: string;
+  institution: string;
+  name: string;
+  type: AccountData['accountType'];
+  balance: number;
+  interestRate: number;
+  minimumPayment?: number;
+  creditLimit?: number;
+  daysUntilDue: number;
+}
+
+export interface DemoSimulation {
+  balance: number;
+  minimumPayment?: number;
+  lastPaymentDate?: Date;
+  nextPaymentDueDate: Date;
+  transactions: TransactionData[]; // Card activity, oldest first
+}
+
+// Cards are used on about one day in five, each purchase 5-35% of the starting minimum
+// payment, so balances creep up the way they do for someone paying only the minimum
+const SPEND_PROBABILITY = 0.2;
+const SPEND_MIN_SHARE = 0.05;
+const SPEND_MAX_SHARE = 0.35;
+
+// Typical card minimum: 1% of the balance plus the month's interest, at least $25
+const CARD_MINIMUM_FLOOR_CENTS = 2500;
+const CARD_MINIMUM_BALANCE_SHARE = 0.01;
+
+const MERCHANTS: { name: string; category: string }[] = [
+  { name: 'Amazon Purchase', category: 'Shopping' },
+  { name: 'Walmart', category: 'Shopping' },
+  { name: 'Target', category: 'Shopping' },
+  { name: 'Gas Station', category: 'Transportation' },
+  { name: 'Restaurant', category: 'Food & Dining' },
+  { name: 'Grocery Store', category: 'Food & Dining' },
+  { name: 'Coffee Shop', category: 'Food & Dining' },
+  { name: 'Subscription Service', category: 'Entertainment' },
+  { name: 'Utility Bill', category: 'Bills & Utilities' },
+  { name: 'Phone Bill', category: 'Bills & Utilities' },
+  { name: 'Pharmacy', category: 'Healthcare' },
+];
+
+// FNV-1a, so seeds can be derived from names
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and the same on every platform
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function cardMinimumCents(balanceCents: number, interestCents: number): number {
+  return Math.max(CARD_MINIMUM_FLOOR_CENTS, Math.round(balanceCents * CARD_MINIMUM_BALANCE_SHARE) + interestCents);
+}
+
+// Payments fall on the same day every month, derived from daysUntilDue at the start
+function dueDayOfMonth(account: DemoAccount, start: Date): number {
+  return ((start.getDate() - 1 + account.daysUntilDue) % 28) + 1;
+}
+
+function nextDueDate(dueDay: number, after: Date): Date {
+  const thisMonth = setDate(startOfDay(after), dueDay);
+  return thisMonth > startOfDay(after) ? thisMonth : addMonths(thisMonth, 1);
+}
+
+// Replay an account day by day from `start` (holding the fixture balance) to `end`. The same
+// account, seed and dates always give the same result, and extending `end` never changes
+// what happened on earlier days. Amounts are tracked in cents.
+export function simulateDemoAccount(account: DemoAccount, seed: number, start: Date, end: Date): DemoSimulation {
+  const random = seededRandom(seed ^ hashSeed(account.id));
+  const isCard = account.type === 'credit_card';
+  const firstDay = startOfDay(start);
+  const days = Math.max(0, differenceInCalendarDays(end, firstDay));
+  const dueDay = dueDayOfMonth(account, firstDay);
+  const dailyRate = account.interestRate / 100 / 365;
+  const limitCents = account.creditLimit ? Math.round(account.creditLimit * 100) : Infinity;
+  const spendBaseCents = Math.round((account.minimumPayment || 0) * 100);
+
+  let balance = Math.round(account.balance * 100);
+  let accruedInterest = 0; // Fractional cents until the next due date
+  let lastInterest = Math.round(balance * dailyRate * 30);
+  let lastPaymentDate: Date | undefined;
+  const transactions: TransactionData[] = [];
+
+  const record = (date: Date, index: number, amountCents: number, description: string, category: string) => {
+    transactions.push({
+      providerId: `demo_txn_${account.id}_${format(date, 'yyyyMMdd')}_${index}`,
+      providerAccountId: account.id,
+      date,
+      amount: amountCents / 100,
+      description,
+      category,
+      pending: false,
+    });
+  };
+
+  for (let day = 1; day <= days; day++) {
+    const date = addDays(firstDay, day);
+    accruedInterest += balance * dailyRate;
+
+    if (isCard && spendBaseCents > 0 && random() < SPEND_PROBABILITY) {
+      const share = SPEND_MIN_SHARE + random() * (SPEND_MAX_SHARE - SPEND_MIN_SHARE);
+      const amount = Math.round(spendBaseCents * share);
+      const merchant = MERCHANTS[Math.floor(random() * MERCHANTS.length)];
+      // Declined once the card is maxed out
+      if (balance + amount <= limitCents) {
+        balance += amount;
+        record(date, 0, amount, merchant.name, merchant.category);
+      }
+    }
+
+    if (date.getDate() === dueDay && balance > 0) {
+      const interest = Math.round(accruedInterest);
+      accruedInterest = 0;
+      lastInterest = interest;
+      if (interest > 0) {
+        balance += interest;
+        if (isCard) record(date, 1, interest, 'Interest Charge', 'Interest');
+      }
+
+      const minimum = isCard ? cardMinimumCents(balance, interest) : Math.round((account.minimumPayment || 0) * 100);
+      const payment = Math.min(balance, minimum);
+      if (payment > 0) {
+        balance -= payment;
+        lastPaymentDate = date;
+        if (isCard) record(date, 2, -payment, 'Payment - Thank You', 'Payment');
+      }
+    }
+  }
+
+  const minimumPayment = isCard
+    ? Math.min(balance, cardMinimumCents(balance, lastInterest)) / 100
+    : account.minimumPayment !== undefined ? Math.min(balance / 100, account.minimumPayment) : undefined;
+
+  return {
+    balance: balance / 100,
+    minimumPayment,
+    lastPaymentDate,
+    nextPaymentDueDate: nextDueDate(dueDay, addDays(firstDay, days)),
+    transactions,
+  };
+}
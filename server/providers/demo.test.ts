@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DebtAccount, DemoConnection } from '@shared/schema';
+import type { AccountData, TransactionChanges } from './base';
+import { storage } from '../storage';
+import { DemoProvider, demoRegistration } from './demo';
+
+const { connections } = demoRegistration;
+
+const synced = {
+  providerId: 'demo_chase_freedom',
+  institutionName: 'Chase Bank',
+  accountName: 'Chase Freedom Unlimited',
+} as AccountData;
+
+const stored = (fields: Partial<DebtAccount>) => ({
+  syncSource: 'demo',
+  accountNickname: 'Chase Freedom Unlimited',
+  providerAccountId: 'demo_chase_freedom',
+  providerAccountSource: 'demo',
+  ...fields,
+}) as DebtAccount;
+
+test('demo accounts are linked by their demo ID', () => {
+  assert.deepEqual(connections.accountLink(synced), { providerAccountId: 'demo_chase_freedom', providerAccountSource: 'demo' });
+  assert.equal(connections.accountId(stored({})), 'demo_chase_freedom');
+});
+
+test('renamed and kept accounts still match', () => {
+  assert.ok(connections.matches(stored({ accountNickname: 'My card' }), synced));
+  // Accounts kept after a disconnect become manual
+  assert.ok(connections.matches(stored({ syncSource: 'manual' }), synced));
+  assert.ok(!connections.matches(stored({ providerAccountId: 'demo_chase_sapphire' }), synced));
+});
+
+test('the same ID from another provider does not match', () => {
+  // Merged accounts keep their first source, so only the stored provider tells them apart
+  assert.ok(!connections.matches(stored({ syncSource: 'plaid', providerAccountSource: 'other' }), synced));
+  assert.ok(connections.matches(stored({ syncSource: 'plaid' }), synced));
+});
+
+test('accounts saved without a demo ID fall back to the name', () => {
+  const legacy = stored({ providerAccountId: null });
+  assert.ok(connections.matches(legacy, synced));
+  assert.equal(connections.accountId(legacy), 'Chase Freedom Unlimited');
+  assert.ok(!connections.matches({ ...legacy, syncSource: 'plaid' }, synced));
+});
+
+test('two users adding the same institution get their own transactions', async (t) => {
+  const created: DemoConnection[] = [];
+  t.mock.method(storage, 'getDemoConnections', async () => []);
+  t.mock.method(storage, 'createDemoConnection', async (values: any) => {
+    const connection = {
+      ...values,
+      id: `demo-${created.length + 1}`,
+      nickname: null,
+      clockOffsetMonths: 0,
+      createdAt: new Date(),
+    } as DemoConnection;
+    created.push(connection);
+    return connection;
+  });
+  t.mock.method(storage, 'getDemoConnection', async (id: string) => created.find(c => c.id === id));
+  t.mock.method(storage, 'getLatestTransactionDate', async () => undefined);
+
+  const provider = new DemoProvider();
+  const ids = await Promise.all(['user-a', 'user-b'].map(async userId => {
+    const connectionId = await provider.addDemoInstitution(userId, 'Chase Bank');
+    let changes: TransactionChanges | undefined;
+    await provider.syncTransactions(connectionId, async c => {
+      changes = c;
+    });
+    return changes!.added.map(transaction => transaction.providerId);
+  }));
+
+  assert.notEqual(created[0].simulationSeed, created[1].simulationSeed);
+  assert.ok(ids[0].length > 0 && ids[1].length > 0);
+  // Transaction IDs are unique per provider, so an overlap would move one user's rows to the other
+  assert.deepEqual(ids[0].filter(id => ids[1].includes(id)), []);
+});
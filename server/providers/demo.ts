@@ -1,17 +1,11 @@
-import { LiabilityProvider, AccountData, ConnectOptions, ConnectResult, DataSource, DataMode } from './base';
-import { v4 as uuidv4 } from 'uuid';
+import { LiabilityProvider, AccountData, ConnectOptions, ConnectResult, DataSource, DataMode, ConnectionMetadata, ProviderRegistration, TransactionChanges, providerAccountIdLink } from './base';
+import { addMonths, startOfDay, subMonths } from 'date-fns';
+import { storage } from '../storage';
+import { simulateDemoAccount, hashSeed, type DemoAccount } from './demo-simulation';
+import type { DemoConnection } from '@shared/schema';
 
-interface DemoAccount {
-  id: string;
-  institution: string;
-  name: string;
-  type: AccountData['accountType'];
-  balance: number;
-  interestRate: number;
-  minimumPayment?: number;
-  creditLimit?: number;
-  daysUntilDue: number;
-}
+// New connections start their simulation this far back, so the first sync has history
+const SIMULATION_HISTORY_MONTHS = 6;
 
 // Predefined demo accounts with realistic data
 const DEMO_INSTITUTIONS: { [key: string]: DemoAccount[] } = {
@@ -127,8 +121,6 @@ const DEMO_INSTITUTIONS: { [key: string]: DemoAccount[] } = {
 };
 
 export class DemoProvider extends LiabilityProvider {
-  private userConnections: Map<string, Set<string>> = new Map();
-  
   constructor() {
     super('demo');
   }
@@ -142,176 +134,180 @@ export class DemoProvider extends LiabilityProvider {
   }
   
   async connect(options: ConnectOptions): Promise<ConnectResult> {
-    // For demo, we'll return a list of institutions to choose from
-    const connectionId = `demo_${uuidv4()}`;
-    
-    // Initialize user's connections if not exists
-    if (!this.userConnections.has(options.userId)) {
-      this.userConnections.set(options.userId, new Set());
-    }
-    
+    // Nothing to authorize; connections are created per institution by addDemoInstitution
     return {
       success: true,
-      connectionId,
-      // In a real implementation, this would be a URL to a selection page
-      redirectUrl: `/demo/select-institution?connectionId=${connectionId}`,
     };
   }
   
-  async disconnect(connectionId: string): Promise<boolean> {
-    // Remove from all users
-    for (const [userId, connections] of Array.from(this.userConnections.entries())) {
-      if (connections.has(connectionId)) {
-        connections.delete(connectionId);
-        return true;
-      }
-    }
-    return false;
+  async disconnect(connectionId: string, userId: string): Promise<boolean> {
+    return await storage.deleteDemoConnection(connectionId, userId);
   }
   
   async getAccounts(connectionId: string): Promise<AccountData[]> {
-    // Return random selection of demo accounts
-    const institutions = Object.keys(DEMO_INSTITUTIONS);
-    const selectedInstitution = institutions[Math.floor(Math.random() * institutions.length)];
-    const accounts = DEMO_INSTITUTIONS[selectedInstitution];
+    const connection = await storage.getDemoConnection(connectionId);
+    if (!connection || !connection.isActive) return [];
     
-    return accounts.map(account => this.mapDemoAccount(account));
+    return this.simulateInstitution(connection).map(({ account, simulation }) => ({
+      providerId: account.id,
+      institutionName: account.institution,
+      accountName: account.name,
+      accountType: account.type,
+      currentBalance: simulation.balance,
+      interestRate: account.interestRate,
+      minimumPayment: simulation.minimumPayment,
+      creditLimit: account.creditLimit,
+      lastPaymentDate: simulation.lastPaymentDate,
+      nextPaymentDueDate: simulation.nextPaymentDueDate,
+      lastSynced: new Date(),
+      dataMode: 'demo',
+      raw: account,
+    }));
   }
   
   async syncAccount(connectionId: string, accountId: string): Promise<AccountData> {
-    // Find the account across all institutions
-    for (const accounts of Object.values(DEMO_INSTITUTIONS)) {
-      const account = accounts.find(a => a.id === accountId);
-      if (account) {
-        // Simulate balance changes
-        const variation = (Math.random() - 0.5) * 100; // +/- $50
-        account.balance = Math.max(0, account.balance + variation);
-        
-        return this.mapDemoAccount(account);
-      }
+    // Accounts saved before demo IDs were stored are identified by name
+    const accounts = await this.syncAllAccounts(connectionId);
+    const account = accounts.find(a => a.providerId === accountId || a.accountName === accountId);
+    if (!account) {
+      throw new Error('Demo account not found');
     }
-    
-    throw new Error('Demo account not found');
+    return account;
   }
   
   async syncAllAccounts(connectionId: string): Promise<AccountData[]> {
     const accounts = await this.getAccounts(connectionId);
     
-    // Simulate small balance changes
-    return accounts.map(account => ({
-      ...account,
-      currentBalance: Math.max(0, account.currentBalance + (Math.random() - 0.5) * 100),
-      lastSynced: new Date(),
-    }));
-  }
-  
-  async addDemoInstitution(userId: string, institutionName: string): Promise<string> {
-    const connectionId = `demo_${institutionName.replace(/\s+/g, '_')}_${uuidv4()}`;
-    
-    if (!this.userConnections.has(userId)) {
-      this.userConnections.set(userId, new Set());
+    const connection = await storage.getDemoConnection(connectionId);
+    if (connection) {
+      await storage.updateDemoConnection(connectionId, connection.userId, { lastSynced: new Date() });
     }
     
-    this.userConnections.get(userId)!.add(connectionId);
-    
-    return connectionId;
+    return accounts;
   }
   
-  async getDemoInstitutions(): Promise<string[]> {
-    return Object.keys(DEMO_INSTITUTIONS);
-  }
-  
-  async getDemoAccountsForInstitution(institution: string): Promise<AccountData[]> {
-    const accounts = DEMO_INSTITUTIONS[institution] || [];
-    return accounts.map(account => this.mapDemoAccount(account));
+  // Card activity from the simulation; IDs are stable, so only days since the latest stored
+  // transaction need sending. Transaction IDs are unique per provider across all users, so the
+  // connection ID is part of them.
+  async syncTransactions(connectionId: string, save: (changes: TransactionChanges) => Promise<void>): Promise<void> {
+    const connection = await storage.getDemoConnection(connectionId);
+    if (!connection || !connection.isActive) return;
+    
+    const since = await storage.getLatestTransactionDate(connectionId);
+    const resent = this.simulateInstitution(connection)
+      .flatMap(({ simulation }) => simulation.transactions)
+      .filter(transaction => !since || transaction.date >= startOfDay(since));
+    const added = resent.map(transaction => ({ ...transaction, providerId: `${connection.id}_${transaction.providerId}` }));
+    
+    // The same days may still be stored under the IDs used before the connection ID was added
+    await save({ added, modified: [], removed: resent.map(transaction => transaction.providerId) });
   }
   
-  private mapDemoAccount(account: DemoAccount): AccountData {
-    const now = new Date();
-    const nextPaymentDate = new Date();
-    nextPaymentDate.setDate(now.getDate() + account.daysUntilDue);
+  // Jump the connection's simulated clock forward; returns the new simulated date
+  async advanceClock(connectionId: string, userId: string, months: number): Promise<Date | null> {
+    const connection = await storage.getDemoConnection(connectionId);
+    if (!connection || connection.userId !== userId || !connection.isActive) return null;
     
-    const lastPaymentDate = new Date();
-    lastPaymentDate.setMonth(now.getMonth() - 1);
-    lastPaymentDate.setDate(nextPaymentDate.getDate());
-    
-    return {
-      providerId: account.id,
-      institutionName: account.institution,
-      accountName: account.name,
-      accountType: account.type,
-      currentBalance: account.balance,
-      interestRate: account.interestRate,
-      minimumPayment: account.minimumPayment,
-      creditLimit: account.creditLimit,
-      lastPaymentDate,
-      nextPaymentDueDate: nextPaymentDate,
-      lastSynced: new Date(),
-      dataMode: 'demo',
-      raw: account,
-    };
+    const updated = await storage.updateDemoConnection(connectionId, userId, {
+      clockOffsetMonths: connection.clockOffsetMonths + months,
+    });
+    return updated ? simulatedNow(updated) : null;
   }
   
-  // Generate realistic transaction history for demo accounts
-  generateTransactionHistory(accountId: string, months: number = 6): any[] {
-    const transactions = [];
-    const now = new Date();
+  async addDemoInstitution(userId: string, institutionName: string): Promise<string> {
+    if (!DEMO_INSTITUTIONS[institutionName]) {
+      throw new Error(`Unknown demo institution: ${institutionName}`);
+    }
     
-    for (let month = 0; month < months; month++) {
-      const date = new Date(now);
-      date.setMonth(date.getMonth() - month);
-      
-      // Generate 5-15 transactions per month
-      const numTransactions = 5 + Math.floor(Math.random() * 10);
-      
-      for (let i = 0; i < numTransactions; i++) {
-        const transactionDate = new Date(date);
-        transactionDate.setDate(Math.floor(Math.random() * 28) + 1);
-        
-        transactions.push({
-          id: `demo_txn_${uuidv4()}`,
-          accountId,
-          date: transactionDate,
-          amount: Math.random() * 500 + 10,
-          description: this.generateTransactionDescription(),
-          category: this.generateTransactionCategory(),
-        });
-      }
+    // Adding the same institution again refreshes the existing connection
+    const existing = (await storage.getDemoConnections(userId))
+      .find(connection => connection.institutionName === institutionName);
+    if (existing) {
+      await storage.updateDemoConnection(existing.id, userId, { lastSynced: new Date() });
+      return existing.id;
     }
     
-    return transactions.sort((a, b) => b.date.getTime() - a.date.getTime());
+    // Seeded by user and institution, so each user's demo plays out its own way
+    const connection = await storage.createDemoConnection({
+      userId,
+      institutionName,
+      isActive: true,
+      simulationSeed: hashSeed(`${userId}:${institutionName}`) | 0, // Signed, to fit the integer column
+      simulationStart: subMonths(new Date(), SIMULATION_HISTORY_MONTHS),
+      lastSynced: new Date(),
+    });
+    
+    return connection.id;
   }
   
-  private generateTransactionDescription(): string {
-    const descriptions = [
-      'Amazon Purchase',
-      'Walmart',
-      'Target',
-      'Gas Station',
-      'Restaurant',
-      'Grocery Store',
-      'Online Shopping',
-      'Coffee Shop',
-      'Subscription Service',
-      'Insurance Payment',
-      'Utility Bill',
-      'Phone Bill',
-    ];
-    
-    return descriptions[Math.floor(Math.random() * descriptions.length)];
+  async getDemoInstitutions(): Promise<string[]> {
+    return Object.keys(DEMO_INSTITUTIONS);
   }
   
-  private generateTransactionCategory(): string {
-    const categories = [
-      'Shopping',
-      'Food & Dining',
-      'Transportation',
-      'Bills & Utilities',
-      'Entertainment',
-      'Healthcare',
-      'Other',
-    ];
-    
-    return categories[Math.floor(Math.random() * categories.length)];
+  private simulateInstitution(connection: DemoConnection) {
+    const start = simulationStart(connection);
+    const end = simulatedNow(connection);
+    return (DEMO_INSTITUTIONS[connection.institutionName] || []).map(account => ({
+      account,
+      simulation: simulateDemoAccount(account, connection.simulationSeed, start, end),
+    }));
   }
-}
\ No newline at end of file
+}
+
+function simulationStart(connection: DemoConnection): Date {
+  return connection.simulationStart || subMonths(connection.createdAt || new Date(), SIMULATION_HISTORY_MONTHS);
+}
+
+// The real date plus however far the user has jumped ahead
+export function simulatedNow(connection: DemoConnection): Date {
+  return addMonths(new Date(), connection.clockOffsetMonths);
+}
+
+function toConnectionMetadata(connection: DemoConnection): ConnectionMetadata {
+  return {
+    id: connection.id,
+    userId: connection.userId,
+    provider: 'demo',
+    dataMode: 'demo',
+    institutionName: connection.institutionName,
+    nickname: connection.nickname,
+    isActive: connection.isActive || false,
+    lastSynced: connection.lastSynced,
+  };
+}
+
+// Demo accounts are linked by providerAccountId. Those saved before it was stored are matched by
+// name until their next sync stores it.
+const demoAccountLink = providerAccountIdLink('demo');
+
+export const demoRegistration: ProviderRegistration = {
+  provider: new DemoProvider(),
+  displayName: 'Demo Data',
+  description: 'Try with realistic demo data',
+  capabilities: { webhooks: false, demo: true, perAccountSync: true },
+  syncIntervalMinutes: 1440,
+  connections: {
+    async list(userId) {
+      const connections = await storage.getDemoConnections(userId, true);
+      return connections.map(toConnectionMetadata);
+    },
+    async update(userId, connectionId, changes) {
+      const connection = await storage.updateDemoConnection(connectionId, userId, changes);
+      return connection ? toConnectionMetadata(connection) : null;
+    },
+    async findForAccount(account) {
+      if (account.connectionId) {
+        const connection = await storage.getDemoConnection(account.connectionId);
+        return connection && connection.userId === account.userId ? toConnectionMetadata(connection) : null;
+      }
+      const connections = await storage.getDemoConnections(account.userId);
+      const connection = connections.find(c => c.institutionName === account.institutionName);
+      return connection ? toConnectionMetadata(connection) : null;
+    },
+    accountId: account => account.providerAccountId || account.accountNickname,
+    matches: (existing, account) => existing.providerAccountId
+      ? demoAccountLink.matches(existing, account)
+      : existing.syncSource === 'demo' && existing.accountNickname === account.accountName,
+    accountLink: demoAccountLink.accountLink,
+  },
+};
@@ -0,0 +1,305 @@
+import crypto from 'crypto';
+import type { AccountData } from './base';
+
+export type FileFormat = 'csv' | 'ofx';
+
+// Fields of the documented CSV layout. The header names below are what an exported template
+// uses; other headers can be mapped to these fields in the preview step.
+export const CSV_FIELDS = [
+  'institution_name',
+  'account_name',
+  'account_type',
+  'current_balance',
+  'interest_rate',
+  'minimum_payment',
+  'credit_limit',
+  'due_date',
+  'account_id',
+] as const;
+
+export type CsvField = typeof CSV_FIELDS[number];
+export type CsvMapping = Partial<Record<CsvField, string>>;
+
+export const REQUIRED_CSV_FIELDS: CsvField[] = ['institution_name', 'account_name', 'current_balance'];
+
+// Common header spellings seen in lender exports, used to suggest a mapping
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  institution_name: ['institution', 'lender', 'bank', 'servicer', 'creditor'],
+  account_name: ['account', 'name', 'nickname', 'description'],
+  account_type: ['type', 'loan_type'],
+  current_balance: ['balance', 'amount_owed', 'principal_balance', 'current_principal'],
+  interest_rate: ['apr', 'rate', 'interest'],
+  minimum_payment: ['min_payment', 'minimum_due', 'payment_due', 'monthly_payment', 'payment'],
+  credit_limit: ['limit', 'credit_line'],
+  due_date: ['payment_due_date', 'next_due_date', 'next_payment_due'],
+  account_id: ['account_number', 'account_no', 'last4', 'last_4'],
+};
+
+const ACCOUNT_TYPE_KEYWORDS: [string, AccountData['accountType']][] = [
+  ['heloc', 'heloc'],
+  ['home equity', 'heloc'],
+  ['credit', 'credit_card'],
+  ['card', 'credit_card'],
+  ['auto', 'auto_loan'],
+  ['car', 'auto_loan'],
+  ['student', 'student_loan'],
+  ['mortgage', 'mortgage'],
+];
+
+export interface ParsedRowError {
+  row: number; // 1-based data row, not counting the header
+  message: string;
+}
+
+export interface ParsedFile {
+  format: FileFormat;
+  accounts: AccountData[];
+  errors: ParsedRowError[];
+  headers?: string[];
+  sampleRows?: string[][];
+  mapping?: CsvMapping;
+}
+
+export function detectFormat(fileName: string, content: string): FileFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (/^\s*(OFXHEADER|<\?xml[\s\S]*?<OFX>|<OFX>)/i.test(content)) return 'ofx';
+  return 'csv';
+}
+
+// RFC 4180 parsing: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+export function suggestCsvMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  for (const field of CSV_FIELDS) {
+    const candidates = [field, ...FIELD_ALIASES[field]];
+    const index = normalized.findIndex((header, i) =>
+      candidates.includes(header) && !Object.values(mapping).includes(headers[i])
+    );
+    if (index !== -1) {
+      mapping[field] = headers[index];
+    }
+  }
+
+  return mapping;
+}
+
+// Parse "$1,234.56", "(1,234.56)", "19.99%" and similar into a number
+function parseAmount(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const negative = /^\(.*\)$/.test(value.trim());
+  const amount = parseFloat(value.replace(/[$,%()\s]/g, ''));
+  if (isNaN(amount)) return undefined;
+  return negative ? -amount : amount;
+}
+
+function parseAccountType(value: string | undefined): AccountData['accountType'] {
+  const type = (value || '').toLowerCase().replace(/[_-]/g, ' ');
+  const exact = type.replace(/ /g, '_');
+  if (['credit_card', 'auto_loan', 'student_loan', 'mortgage', 'personal_loan', 'heloc'].includes(exact)) {
+    return exact as AccountData['accountType'];
+  }
+  const match = ACCOUNT_TYPE_KEYWORDS.find(([keyword]) => type.includes(keyword));
+  return match ? match[1] : 'personal_loan';
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value || value.trim() === '') return undefined;
+  // Bare ISO dates would otherwise parse as UTC midnight and can land on the previous day
+  const trimmed = value.trim();
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00` : trimmed);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Stable key for an imported account, so re-uploading the same account updates it. Hashed
+// because the identifier is often a full account number.
+export function fileAccountKey(institutionName: string, accountIdentifier: string): string {
+  const normalized = `${institutionName}|${accountIdentifier}`.trim().toLowerCase().replace(/\s+/g, ' ');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export function parseCsvAccounts(content: string, mapping?: CsvMapping): ParsedFile {
+  const [headers = [], ...rows] = parseCsv(content);
+  const effectiveMapping = mapping || suggestCsvMapping(headers);
+  const errors: ParsedRowError[] = [];
+  const accounts: AccountData[] = [];
+
+  const missing = REQUIRED_CSV_FIELDS.filter(field => !effectiveMapping[field] || !headers.includes(effectiveMapping[field]!));
+  if (missing.length > 0) {
+    errors.push({ row: 0, message: `Map a column to ${missing.join(', ')}` });
+  } else {
+    rows.forEach((row, index) => {
+      const value = (field: CsvField) => {
+        const header = effectiveMapping[field];
+        return header ? row[headers.indexOf(header)]?.trim() : undefined;
+      };
+
+      const institutionName = value('institution_name');
+      const accountName = value('account_name');
+      const balance = parseAmount(value('current_balance'));
+      if (!institutionName || !accountName || balance === undefined) {
+        errors.push({ row: index + 1, message: 'Missing institution, account name or balance' });
+        return;
+      }
+
+      const accountId = value('account_id');
+      accounts.push({
+        providerId: fileAccountKey(institutionName, accountId || accountName),
+        institutionName,
+        accountName,
+        accountType: parseAccountType(value('account_type')),
+        mask: accountId && /\d{4}$/.test(accountId) ? accountId.slice(-4) : undefined,
+        currentBalance: Math.abs(balance),
+        interestRate: parseAmount(value('interest_rate')),
+        minimumPayment: parseAmount(value('minimum_payment')),
+        creditLimit: parseAmount(value('credit_limit')),
+        nextPaymentDueDate: parseDate(value('due_date')),
+        lastSynced: new Date(),
+        dataMode: 'live',
+        raw: Object.fromEntries(headers.map((header, i) => [header, row[i]])),
+      });
+    });
+  }
+
+  return {
+    format: 'csv',
+    accounts,
+    errors,
+    headers,
+    sampleRows: rows.slice(0, 5),
+    mapping: effectiveMapping,
+  };
+}
+
+// Leaf values work for both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x)
+function ofxValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+}
+
+function ofxBlocks(content: string, tag: string): string[] {
+  return Array.from(content.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')), match => match[1]);
+}
+
+// OFX dates look like 20240115120000.000[-5:EST]
+function ofxDate(value: string | undefined): Date | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00`) : undefined;
+}
+
+const OFX_LOAN_TYPES: { [key: string]: AccountData['accountType'] } = {
+  AUTO: 'auto_loan',
+  STUDENT: 'student_loan',
+  MORTGAGE: 'mortgage',
+  HOMEEQUITY: 'heloc',
+};
+
+export function parseOfxAccounts(content: string): ParsedFile {
+  const institutionName = ofxValue(content, 'ORG') || 'Imported Institution';
+  const accounts: AccountData[] = [];
+  const errors: ParsedRowError[] = [];
+
+  const addAccount = (
+    block: string,
+    accountType: AccountData['accountType'],
+    fallbackName: string,
+    balanceTags: string[],
+  ) => {
+    const accountId = ofxValue(block, 'ACCTID');
+    const balanceTag = balanceTags.find(tag => ofxValue(block, tag) !== undefined);
+    const balance = balanceTag ? parseAmount(ofxValue(block, balanceTag)) : undefined;
+    if (!accountId || balance === undefined) {
+      errors.push({ row: accounts.length + errors.length + 1, message: 'Statement is missing an account ID or balance' });
+      return;
+    }
+
+    const last4 = accountId.slice(-4);
+    accounts.push({
+      providerId: fileAccountKey(institutionName, accountId),
+      institutionName,
+      accountName: `${fallbackName} ...${last4}`,
+      accountType,
+      mask: /^\d{4}$/.test(last4) ? last4 : undefined,
+      currentBalance: Math.abs(balance),
+      lastSynced: ofxDate(ofxValue(block, 'DTASOF')) || new Date(),
+      dataMode: 'live',
+      raw: { accountId: `...${last4}` },
+    });
+  };
+
+  // Credit card statements
+  for (const block of ofxBlocks(content, 'CCSTMTRS')) {
+    addAccount(block, 'credit_card', 'Credit Card', ['BALAMT']);
+  }
+
+  // Bank statements only matter when the account is a line of credit
+  for (const block of ofxBlocks(content, 'STMTRS')) {
+    if ((ofxValue(block, 'ACCTTYPE') || '').toUpperCase() === 'CREDITLINE') {
+      addAccount(block, 'heloc', 'Line of Credit', ['BALAMT']);
+    }
+  }
+
+  // Loan statements
+  for (const block of ofxBlocks(content, 'LOANSTMTRS')) {
+    const loanType = (ofxValue(block, 'LOANACCTTYPE') || '').toUpperCase();
+    addAccount(block, OFX_LOAN_TYPES[loanType] || 'personal_loan', 'Loan', ['PRINBAL', 'BALAMT']);
+  }
+
+  if (accounts.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, message: 'No credit card, credit line or loan statements found in this file' });
+  }
+
+  return { format: 'ofx', accounts, errors };
+}
+
+export function parseStatementFile(fileName: string, content: string, mapping?: CsvMapping): ParsedFile {
+  return detectFormat(fileName, content) === 'ofx'
+    ? parseOfxAccounts(content)
+    : parseCsvAccounts(content, mapping);
+}
@@ -0,0 +1,117 @@
+import { LiabilityProvider, AccountData, ConnectOptions, ConnectResult, DataSource, ConnectionMetadata, ProviderRegistration } from './base';
+import { parseStatementFile, type CsvMapping, type FileFormat, type ParsedFile } from './file-import';
+import { storage } from '../storage';
+import type { FileConnection } from '@shared/schema';
+
+// Imports liability accounts from uploaded CSV and OFX/QFX statements, for lenders that
+// aren't reachable through Plaid or Method
+export class FileProvider extends LiabilityProvider {
+  constructor() {
+    super('live');
+  }
+
+  getName(): DataSource {
+    return 'file';
+  }
+
+  isConfigured(): boolean {
+    return true; // Uploads need no credentials
+  }
+
+  async connect(options: ConnectOptions): Promise<ConnectResult> {
+    // Nothing to authorize; accounts arrive through the preview and import routes
+    return {
+      success: true,
+    };
+  }
+
+  async disconnect(connectionId: string, userId: string): Promise<boolean> {
+    return await storage.deleteFileConnection(connectionId, userId);
+  }
+
+  // Imported balances only change when a new statement is uploaded
+  async getAccounts(connectionId: string): Promise<AccountData[]> {
+    return [];
+  }
+
+  async syncAccount(connectionId: string, accountId: string): Promise<AccountData> {
+    throw new Error('Imported accounts are updated by uploading a new statement');
+  }
+
+  async syncAllAccounts(connectionId: string): Promise<AccountData[]> {
+    return [];
+  }
+
+  parseFile(fileName: string, content: string, mapping?: CsvMapping): ParsedFile {
+    return parseStatementFile(fileName, content, mapping);
+  }
+
+  // Find or create the connection for an institution and record the upload against it
+  async recordImport(userId: string, institutionName: string, format: FileFormat, fileName: string): Promise<string> {
+    const existing = (await storage.getFileConnections(userId))
+      .find(connection => connection.institutionName === institutionName);
+
+    if (existing) {
+      await storage.updateFileConnection(existing.id, userId, {
+        format,
+        fileName,
+        lastSynced: new Date(),
+      });
+      return existing.id;
+    }
+
+    const connection = await storage.createFileConnection({
+      userId,
+      institutionName,
+      format,
+      fileName,
+      isActive: true,
+      lastSynced: new Date(),
+    });
+
+    return connection.id;
+  }
+}
+
+function toConnectionMetadata(connection: FileConnection): ConnectionMetadata {
+  return {
+    id: connection.id,
+    userId: connection.userId,
+    provider: 'file',
+    dataMode: 'live',
+    institutionName: connection.institutionName,
+    nickname: connection.nickname,
+    isActive: connection.isActive || false,
+    lastSynced: connection.lastSynced,
+    metadata: { format: connection.format, fileName: connection.fileName },
+  };
+}
+
+export const fileRegistration: ProviderRegistration = {
+  provider: new FileProvider(),
+  displayName: 'Statement Upload',
+  description: 'Import CSV or OFX/QFX files from lenders we can\'t connect to',
+  capabilities: { webhooks: false, demo: false, perAccountSync: false },
+  connections: {
+    async list(userId) {
+      const connections = await storage.getFileConnections(userId, true);
+      return connections.map(toConnectionMetadata);
+    },
+    async update(userId, connectionId, changes) {
+      const connection = await storage.updateFileConnection(connectionId, userId, changes);
+      return connection ? toConnectionMetadata(connection) : null;
+    },
+    async findForAccount(account) {
+      if (account.connectionId) {
+        const connection = await storage.getFileConnection(account.connectionId);
+        return connection && connection.userId === account.userId ? toConnectionMetadata(connection) : null;
+      }
+      const connections = await storage.getFileConnections(account.userId);
+      const connection = connections.find(c => c.institutionName === account.institutionName);
+      return connection ? toConnectionMetadata(connection) : null;
+    },
+    accountId: account => account.fileAccountId,
+    matches: (existing, account) => existing.fileAccountId === account.providerId,
+    accountLink: account => ({ fileAccountId: account.providerId }),
+  },
+};
@@ -0,0 +1,13 @@
+import { providerManager } from './manager';
+import { plaidRegistration } from './plaid';
+import { methodRegistration } from './method';
+import { demoRegistration } from './demo';
+import { fileRegistration } from './file';
+
+// Built-in providers. A new aggregator exports a ProviderRegistration and is added here.
+providerManager.register(plaidRegistration);
+providerManager.register(methodRegistration);
+providerManager.register(demoRegistration);
+providerManager.register(fileRegistration);
+
+export { providerManager };
@@ -1,32 +1,74 @@
-import { LiabilityProvider, AccountData, ConnectOptions, ConnectResult, DataSource, DataMode, ConnectionMetadata } from './base';
-import { PlaidProvider } from './plaid';
-import { MethodProvider } from './method';
-import { DemoProvider } from './demo';
+import { LiabilityProvider, AccountData, AprData, ConnectOptions, ConnectResult, DataSource, ConnectionChanges, ConnectionMetadata, ProviderCapabilities, ProviderRegistration } from './base';
+import type { DemoProvider } from './demo';
+import type { FileProvider } from './file';
+import type { CsvMapping, ParsedRowError } from './file-import';
 import { storage } from '../storage';
+import { recordSyncRun, normalizeSyncError, type SyncTrigger, type SyncErrorCode } from '../sync-runs';
 import { DebtAccount } from '@shared/schema';
 
+// What happens to a connection's accounts when it is disconnected
+export type DisconnectAccountAction = 'keep' | 'hide' | 'delete';
+
+export interface ProviderInfo {
+  source: DataSource;
+  available: boolean;
+  name: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+}
+
+export interface SyncFailure {
+  provider: DataSource;
+  connectionId: string;
+  errorCode: SyncErrorCode;
+}
+
+// Paused wins over needing a login, which wins over a failed last sync
+export type ConnectionStatus = 'active' | 'paused' | 'needs_reauth' | 'error';
+
+export interface ConnectionSummary {
+  id: string;
+  source: DataSource;
+  providerName: string;
+  institutionName: string;
+  nickname: string | null;
+  status: ConnectionStatus;
+  isActive: boolean;
+  lastSynced: Date | null;
+  accountsCount: number;
+  error: { code: string | null; message: string | null; at: Date } | null; // From the last sync, when it failed
+}
+
+// Providers are added with register(); see ./index.ts for the built-in ones
 export class ProviderManager {
-  private providers: Map<DataSource, LiabilityProvider> = new Map();
+  private providers: Map<DataSource, ProviderRegistration> = new Map();
   
-  constructor() {
-    // Initialize all providers
-    this.registerProvider(new PlaidProvider());
-    this.registerProvider(new MethodProvider());
-    this.registerProvider(new DemoProvider());
+  register(registration: ProviderRegistration) {
+    const source = registration.provider.getName();
+    if (source === 'manual') {
+      throw new Error('"manual" is reserved for accounts entered by hand');
+    }
+    if (this.providers.has(source)) {
+      throw new Error(`Provider ${source} is already registered`);
+    }
+    this.providers.set(source, registration);
   }
   
-  private registerProvider(provider: LiabilityProvider) {
-    this.providers.set(provider.getName(), provider);
+  getProvider(source: DataSource): LiabilityProvider | undefined {
+    return this.providers.get(source)?.provider;
   }
   
-  getProvider(source: DataSource): LiabilityProvider | undefined {
+  getRegistration(source: DataSource): ProviderRegistration | undefined {
     return this.providers.get(source);
   }
   
-  getAvailableProviders(): { source: DataSource; available: boolean }[] {
-    return Array.from(this.providers.entries()).map(([source, provider]) => ({
+  getAvailableProviders(): ProviderInfo[] {
+    return Array.from(this.providers.entries()).map(([source, registration]) => ({
       source,
-      available: provider.isConfigured(),
+      available: registration.provider.isConfigured(),
+      name: registration.displayName,
+      description: registration.description,
+      capabilities: registration.capabilities,
     }));
   }
   
@@ -49,16 +91,88 @@ export class ProviderManager {
     return provider.connect(options);
   }
   
-  async disconnect(source: DataSource, connectionId: string): Promise<boolean> {
-    const provider = this.getProvider(source);
-    if (!provider) return false;
+  // Returns null when the user has no such connection
+  async disconnect(
+    userId: string,
+    source: DataSource,
+    connectionId: string,
+    accountAction: DisconnectAccountAction = 'keep',
+  ): Promise<{ accounts: number } | null> {
+    const registration = this.getRegistration(source);
+    if (!registration) return null;
+    
+    const connections = await registration.connections.list(userId);
+    if (!connections.some(c => c.id === connectionId)) return null;
+    
+    if (!(await registration.provider.disconnect(connectionId, userId))) return null;
     
-    return provider.disconnect(connectionId);
+    let accounts: number;
+    if (accountAction === 'delete') {
+      accounts = await storage.deleteDebtAccountsByConnection(connectionId, userId);
+    } else if (accountAction === 'hide') {
+      accounts = await storage.updateDebtAccountsByConnection(connectionId, userId, { isHidden: true });
+    } else {
+      // Kept accounts become manual; their provider IDs stay so reconnecting links them again
+      accounts = await storage.updateDebtAccountsByConnection(connectionId, userId, {
+        syncSource: 'manual',
+        isManual: true,
+        connectionId: null,
+      });
+    }
+    
+    return { accounts };
   }
   
-  async syncAccounts(userId: string): Promise<{ synced: number; failed: number }> {
+  // Rename, pause or resume a connection. Returns null when the user has no such connection.
+  async updateConnection(
+    userId: string,
+    source: DataSource,
+    connectionId: string,
+    changes: ConnectionChanges,
+  ): Promise<ConnectionMetadata | null> {
+    const registration = this.getRegistration(source);
+    if (!registration) return null;
+    
+    return await registration.connections.update(userId, connectionId, changes);
+  }
+  
+  // Every connection of the user across providers, with its accounts and last sync outcome
+  async listConnections(userId: string): Promise<ConnectionSummary[]> {
+    const [connections, accounts, latestRuns] = await Promise.all([
+      this.getUserConnections(userId),
+      storage.getDebtAccounts(userId),
+      storage.getLatestSyncRuns(userId),
+    ]);
+    
+    return connections.map(connection => {
+      const lastRun = latestRuns.find(run => run.connectionId === connection.id);
+      const failed = lastRun?.status === 'failed';
+      const status: ConnectionStatus = !connection.isActive ? 'paused'
+        : connection.metadata?.needsReauth ? 'needs_reauth'
+        : failed ? 'error'
+        : 'active';
+      
+      return {
+        id: connection.id,
+        source: connection.provider,
+        providerName: this.getRegistration(connection.provider)?.displayName || connection.provider,
+        institutionName: connection.institutionName || 'Unknown',
+        nickname: connection.nickname ?? null,
+        status,
+        isActive: connection.isActive,
+        lastSynced: connection.lastSynced ?? null,
+        accountsCount: accounts.filter(account => account.connectionId === connection.id).length,
+        error: failed
+          ? { code: lastRun.errorCode, message: lastRun.errorMessage, at: lastRun.finishedAt || lastRun.startedAt }
+          : null,
+      };
+    });
+  }
+  
+  async syncAccounts(userId: string, trigger: SyncTrigger = 'manual'): Promise<{ synced: number; failed: number; errors: SyncFailure[] }> {
     let synced = 0;
     let failed = 0;
+    const errors: SyncFailure[] = [];
     
     // Sync all active connections for the user
     const connections = await this.getUserConnections(userId);
@@ -73,16 +187,41 @@ export class ProviderManager {
       }
       
       try {
-        const accounts = await provider.syncAllAccounts(connection.id);
-        await this.saveAccountsToDatabase(userId, connection, accounts);
-        synced += accounts.length;
+        synced += await this.runConnectionSync(userId, connection, trigger);
       } catch (error) {
         console.error(`Failed to sync ${connection.provider} connection ${connection.id}:`, error);
         failed++;
+        errors.push({ provider: connection.provider, connectionId: connection.id, errorCode: normalizeSyncError(error) });
       }
     }
     
-    return { synced, failed };
+    return { synced, failed, errors };
+  }
+  
+  // Sync a single connection, e.g. when the provider reports that its data changed
+  async syncConnection(userId: string, connectionId: string, trigger: SyncTrigger = 'manual'): Promise<number> {
+    const connections = await this.getUserConnections(userId);
+    const connection = connections.find(c => c.id === connectionId);
+    if (!connection || !connection.isActive) return 0;
+    
+    if (!this.getProvider(connection.provider)) return 0;
+    
+    return await this.runConnectionSync(userId, connection, trigger);
+  }
+  
+  // Every connection sync is recorded in sync_runs
+  private async runConnectionSync(userId: string, connection: ConnectionMetadata, trigger: SyncTrigger): Promise<number> {
+    const provider = this.getProvider(connection.provider)!;
+    
+    return await recordSyncRun(
+      { userId, provider: connection.provider, connectionId: connection.id, trigger },
+      async () => {
+        const accounts = await provider.syncAllAccounts(connection.id);
+        const { accountIds } = await this.saveAccountsToDatabase(userId, connection, accounts);
+        await this.syncTransactions(userId, connection, accountIds);
+        return accounts.length;
+      },
+    );
   }
   
   async syncAccount(userId: string, accountId: string): Promise<boolean> {
@@ -90,15 +229,26 @@ export class ProviderManager {
     const account = await storage.getDebtAccount(accountId, userId);
     if (!account) return false;
     
-    const connection = await this.getConnectionForAccount(account);
-    if (!connection) return false;
+    const registration = account.syncSource ? this.getRegistration(account.syncSource) : undefined;
+    if (!registration) return false;
     
-    const provider = this.getProvider(connection.provider);
-    if (!provider) return false;
+    const connection = await registration.connections.findForAccount(account);
+    if (!connection || !connection.isActive) return false;
     
     try {
-      const updatedAccount = await provider.syncAccount(connection.id, account.plaidAccountId || account.methodAccountId || accountId);
-      await this.updateAccountInDatabase(userId, account.id, updatedAccount);
+      if (!registration.capabilities.perAccountSync) {
+        return (await this.syncConnection(userId, connection.id)) > 0;
+      }
+      
+      const providerAccountId = registration.connections.accountId(account) || accountId;
+      await recordSyncRun(
+        { userId, provider: connection.provider, connectionId: connection.id, trigger: 'manual' },
+        async () => {
+          const updatedAccount = await registration.provider.syncAccount(connection.id, providerAccountId);
+          await this.updateAccountInDatabase(userId, account.id, updatedAccount, connection.provider);
+          return 1;
+        },
+      );
       return true;
     } catch (error) {
       console.error(`Failed to sync account ${accountId}:`, error);
@@ -106,138 +256,124 @@ export class ProviderManager {
     }
   }
   
-  private async getUserConnections(userId: string): Promise<ConnectionMetadata[]> {
+  async getUserConnections(userId: string): Promise<ConnectionMetadata[]> {
     const connections: ConnectionMetadata[] = [];
     
-    // Get Plaid connections
-    const plaidConnections = await storage.getPlaidConnections(userId);
-    connections.push(...plaidConnections.map(conn => ({
-      id: conn.id,
-      userId: conn.userId,
-      provider: 'plaid' as DataSource,
-      dataMode: 'live' as DataMode, // Plaid is always live or sandbox
-      institutionName: conn.institutionName,
-      isActive: conn.isActive || false,
-      lastSynced: conn.lastSynced,
-    })));
-    
-    // Get Method connections
-    const methodConnections = await storage.getMethodConnections(userId);
-    connections.push(...methodConnections.map(conn => ({
-      id: conn.id,
-      userId: conn.userId,
-      provider: 'method' as DataSource,
-      dataMode: 'live' as DataMode, // Method is always live or sandbox
-      institutionName: conn.institutionName,
-      isActive: conn.isActive || false,
-      lastSynced: conn.lastSynced,
-    })));
-    
-    // Get demo connections (stored in memory for now)
-    // In production, these would be stored in the database
+    for (const registration of Array.from(this.providers.values())) {
+      connections.push(...await registration.connections.list(userId));
+    }
     
     return connections;
   }
   
-  private async getConnectionForAccount(account: DebtAccount): Promise<ConnectionMetadata | null> {
-    if (account.plaidAccountId) {
-      // Find Plaid connection
-      const connections = await storage.getPlaidConnections(account.userId);
-      const connection = connections.find(c => c.isActive);
-      if (connection) {
-        return {
-          id: connection.id,
-          userId: connection.userId,
-          provider: 'plaid',
-          dataMode: 'live',
-          institutionName: connection.institutionName,
-          isActive: connection.isActive || false,
-          lastSynced: connection.lastSynced || undefined,
-        };
-      }
-    }
-    
-    if (account.methodAccountId) {
-      // Find Method connection
-      const connections = await storage.getMethodConnections(account.userId);
-      const connection = connections.find(c => c.accountId === account.methodAccountId);
-      if (connection) {
-        return {
-          id: connection.id,
-          userId: connection.userId,
-          provider: 'method',
-          dataMode: 'live',
-          institutionName: connection.institutionName,
-          isActive: connection.isActive || false,
-          lastSynced: connection.lastSynced || undefined,
-        };
-      }
-    }
+  private async saveAccountsToDatabase(userId: string, connection: ConnectionMetadata, accounts: AccountData[]) {
+    let created = 0;
+    let updated = 0;
+    // Provider account ID to debt account ID, for attaching transactions
+    const accountIds = new Map<string, string>();
     
-    if (account.syncSource === 'demo') {
-      // Demo connection
-      return {
-        id: `demo_${account.id}`,
-        userId: account.userId,
-        provider: 'demo',
-        dataMode: 'demo',
-        institutionName: account.institutionName,
-        isActive: true,
-        lastSynced: account.lastSynced || undefined,
-      };
-    }
+    const store = this.providers.get(connection.provider)!.connections;
     
-    return null;
-  }
-  
-  private async saveAccountsToDatabase(userId: string, connection: ConnectionMetadata, accounts: AccountData[]) {
     for (const account of accounts) {
       // Check if account already exists
       const existingAccounts = await storage.getDebtAccounts(userId);
-      let existing: DebtAccount | undefined;
-      
-      if (connection.provider === 'plaid') {
-        existing = existingAccounts.find(a => a.plaidAccountId === account.providerId);
-      } else if (connection.provider === 'method') {
-        existing = existingAccounts.find(a => a.methodAccountId === account.providerId);
-      } else if (connection.provider === 'demo') {
-        existing = existingAccounts.find(a => 
-          a.syncSource === 'demo' && a.accountNickname === account.accountName
-        );
-      }
+      // Merged accounts can be linked to several providers, so match on the link rather than syncSource
+      const existing = existingAccounts.find(a => store.matches(a, account));
+      // A merged account keeps the source it was first linked through
+      const primarySource = existing && (existing.syncSource || 'manual') !== 'manual' ? existing.syncSource! : connection.provider;
       
+      // Fields the provider didn't report keep their current values
       const accountData = {
         userId,
         institutionName: account.institutionName,
         accountNickname: account.accountName,
         accountType: account.accountType,
         currentBalance: account.currentBalance.toFixed(2),
-        interestRate: (account.interestRate || 0).toFixed(2),
-        minimumPayment: account.minimumPayment?.toFixed(2) || null,
-        creditLimit: account.creditLimit?.toFixed(2) || null,
+        interestRate: account.interestRate !== undefined ? account.interestRate.toFixed(2) : existing?.interestRate ?? '0.00',
+        minimumPayment: account.minimumPayment?.toFixed(2) ?? existing?.minimumPayment ?? null,
+        creditLimit: account.creditLimit?.toFixed(2) ?? existing?.creditLimit ?? null,
+        nextPaymentDueDate: account.nextPaymentDueDate || null,
+        dueDate: account.nextPaymentDueDate?.getDate() ?? existing?.dueDate ?? null,
         isManual: false,
-        syncSource: connection.provider,
-        plaidAccountId: connection.provider === 'plaid' ? account.providerId : null,
-        methodAccountId: connection.provider === 'method' ? account.providerId : null,
+        mask: account.mask ?? existing?.mask ?? null,
+        syncSource: primarySource,
+        connectionId: primarySource === connection.provider ? connection.id : existing?.connectionId ?? null,
+        ...store.accountLink(account),
         lastSynced: account.lastSynced,
       };
       
-      if (existing) {
-        await storage.updateDebtAccount(existing.id, userId, accountData);
-      } else {
-        await storage.createDebtAccount(accountData);
+      const saved = existing
+        ? await storage.updateDebtAccount(existing.id, userId, accountData)
+        : await storage.createDebtAccount(accountData);
+      
+      if (saved) {
+        await storage.createBalanceSnapshot(saved, connection.provider);
+        await this.saveAprBuckets(saved.id, account.aprs);
+        accountIds.set(account.providerId, saved.id);
+        if (existing) updated++; else created++;
       }
     }
+    
+    return { created, updated, accountIds };
+  }
+  
+  // Transactions are kept only for accounts this connection just saved, which skips
+  // checking and savings accounts the provider also reports
+  private async syncTransactions(userId: string, connection: ConnectionMetadata, accountIds: Map<string, string>) {
+    const provider = this.getProvider(connection.provider);
+    if (!provider?.syncTransactions) return;
+    
+    await provider.syncTransactions(connection.id, async (changes) => {
+      const rows = [...changes.added, ...changes.modified]
+        .filter(transaction => accountIds.has(transaction.providerAccountId))
+        .map(transaction => ({
+          userId,
+          accountId: accountIds.get(transaction.providerAccountId)!,
+          connectionId: connection.id,
+          provider: connection.provider,
+          providerTransactionId: transaction.providerId,
+          amount: transaction.amount.toFixed(2),
+          transactionDate: transaction.date,
+          description: transaction.description,
+          merchantName: transaction.merchantName ?? null,
+          category: transaction.category ?? null,
+          pending: transaction.pending,
+        }));
+      
+      await storage.upsertTransactions(rows);
+      await storage.deleteTransactions(userId, connection.provider, changes.removed);
+    });
   }
   
-  private async updateAccountInDatabase(userId: string, accountId: string, account: AccountData) {
-    await storage.updateDebtAccount(accountId, userId, {
+  private async updateAccountInDatabase(userId: string, accountId: string, account: AccountData, source: DataSource) {
+    const updated = await storage.updateDebtAccount(accountId, userId, {
       currentBalance: account.currentBalance.toFixed(2),
       interestRate: (account.interestRate || 0).toFixed(2),
       minimumPayment: account.minimumPayment?.toFixed(2) || null,
       creditLimit: account.creditLimit?.toFixed(2) || null,
+      ...(account.nextPaymentDueDate && {
+        nextPaymentDueDate: account.nextPaymentDueDate,
+        dueDate: account.nextPaymentDueDate.getDate(),
+      }),
       lastSynced: account.lastSynced,
     });
+    
+    if (updated) {
+      await storage.createBalanceSnapshot(updated, source);
+      await this.saveAprBuckets(updated.id, account.aprs);
+    }
+  }
+  
+  private async saveAprBuckets(accountId: string, aprs?: AprData[]) {
+    // Leave existing buckets alone when the provider didn't report any this time
+    if (!aprs) return;
+    
+    await storage.replaceAprBuckets(accountId, aprs.map(apr => ({
+      aprType: apr.type,
+      aprPercentage: apr.rate.toFixed(2),
+      balance: apr.balance?.toFixed(2) ?? null,
+      interestCharge: apr.interestCharge?.toFixed(2) ?? null,
+    })));
   }
   
   // Helper method to get a mixed view of accounts (real + demo)
@@ -258,7 +394,7 @@ export class ProviderManager {
     
     try {
       const connectionId = await demoProvider.addDemoInstitution(userId, institutionName);
-      const accounts = await demoProvider.getDemoAccountsForInstitution(institutionName);
+      const accounts = await demoProvider.getAccounts(connectionId);
       
       const connection: ConnectionMetadata = {
         id: connectionId,
@@ -270,7 +406,8 @@ export class ProviderManager {
         lastSynced: new Date(),
       };
       
-      await this.saveAccountsToDatabase(userId, connection, accounts);
+      const { accountIds } = await this.saveAccountsToDatabase(userId, connection, accounts);
+      await this.syncTransactions(userId, connection, accountIds);
       return true;
     } catch (error) {
       console.error('Failed to add demo accounts:', error);
@@ -278,6 +415,43 @@ export class ProviderManager {
     }
   }
   
+  // Import accounts from an uploaded statement, one connection per institution in the file
+  async importFile(
+    userId: string,
+    fileName: string,
+    content: string,
+    mapping?: CsvMapping,
+  ): Promise<{ created: number; updated: number; errors: ParsedRowError[] }> {
+    const fileProvider = this.getProvider('file') as FileProvider;
+    const parsed = fileProvider.parseFile(fileName, content, mapping);
+    
+    const byInstitution = new Map<string, AccountData[]>();
+    for (const account of parsed.accounts) {
+      const list = byInstitution.get(account.institutionName) || [];
+      list.push(account);
+      byInstitution.set(account.institutionName, list);
+    }
+    
+    let created = 0;
+    let updated = 0;
+    for (const [institutionName, accounts] of Array.from(byInstitution.entries())) {
+      const connectionId = await fileProvider.recordImport(userId, institutionName, parsed.format, fileName);
+      const result = await this.saveAccountsToDatabase(userId, {
+        id: connectionId,
+        userId,
+        provider: 'file',
+        dataMode: 'live',
+        institutionName,
+        isActive: true,
+        lastSynced: new Date(),
+      }, accounts);
+      created += result.created;
+      updated += result.updated;
+    }
+    
+    return { created, updated, errors: parsed.errors };
+  }
+  
   // Get available demo institutions
   async getDemoInstitutions(): Promise<string[]> {
     const demoProvider = this.getProvider('demo') as DemoProvider;
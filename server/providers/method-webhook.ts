@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+// Method sends the auth_token registered with the webhook in the Authorization header
+export function verifyMethodWebhook(
+  authorization: string | undefined,
+  authToken: string | undefined = config.METHOD_WEBHOOK_AUTH_TOKEN,
+): boolean {
+  if (!authorization || !authToken) return false;
+
+  const received = authorization.replace(/^Bearer\s+/i, '');
+  // Compare digests so the lengths always match and the comparison stays constant-time
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(received), digest(authToken));
+}
@@ -1,7 +1,13 @@
-import { LiabilityProvider, AccountData, ConnectOptions, ConnectResult, DataSource, DataMode } from './base';
+import { LiabilityProvider, AccountData, ConnectOptions, ConnectResult, DataSource, DataMode, ConnectionMetadata, ProviderRegistration } from './base';
 import { Method, Environments } from 'method-node';
 import { config } from '../config';
 import { storage } from '../storage';
+import type { MethodConnection } from '@shared/schema';
+
+export interface MethodWebhookResult {
+  connection?: MethodConnection;
+  sync: boolean; // Whether the connection's account should be refreshed
+}
 
 export class MethodProvider extends LiabilityProvider {
   private methodClient: any;
@@ -94,17 +100,10 @@ export class MethodProvider extends LiabilityProvider {
     }
   }
   
-  async disconnect(connectionId: string): Promise<boolean> {
+  async disconnect(connectionId: string, userId: string): Promise<boolean> {
     try {
-      const connection = await storage.getMethodConnection(connectionId);
-      if (!connection) return false;
-      
-      // Mark connection as inactive
-      await storage.updateMethodConnection(connectionId, connection.userId, {
-        isActive: false,
-      });
-      
-      return true;
+      // Method keeps the entity and account, so only our record goes
+      return await storage.deleteMethodConnection(connectionId, userId);
     } catch (error) {
       console.error('Method disconnect error:', error);
       return false;
@@ -113,27 +112,29 @@ export class MethodProvider extends LiabilityProvider {
   
   async getAccounts(connectionId: string): Promise<AccountData[]> {
     try {
-      const connection = await storage.getMethodConnection(connectionId);
-      if (!connection) return [];
-      
-      // Get accounts for the entity
-      const accounts = await this.methodClient
-        .entities(connection.entityId)
-        .accounts
-        .list();
-      
-      // Filter and map liability accounts
-      const liabilityAccounts = accounts.data
-        .filter((account: any) => account.type === 'liability')
-        .map((account: any) => this.mapMethodAccount(account, connection.institutionName));
-      
-      return liabilityAccounts;
+      return await this.listAccounts(connectionId);
     } catch (error) {
       console.error('Method getAccounts error:', error);
       return [];
     }
   }
   
+  private async listAccounts(connectionId: string): Promise<AccountData[]> {
+    const connection = await storage.getMethodConnection(connectionId);
+    if (!connection) return [];
+    
+    // Get accounts for the entity
+    const accounts = await this.methodClient
+      .entities(connection.entityId)
+      .accounts
+      .list();
+    
+    // Filter and map liability accounts
+    return accounts.data
+      .filter((account: any) => account.type === 'liability')
+      .map((account: any) => this.mapMethodAccount(account, connection.institutionName));
+  }
+  
   async syncAccount(connectionId: string, accountId: string): Promise<AccountData> {
     try {
       const connection = await storage.getMethodConnection(connectionId);
@@ -153,7 +154,8 @@ export class MethodProvider extends LiabilityProvider {
   
   async syncAllAccounts(connectionId: string): Promise<AccountData[]> {
     try {
-      const accounts = await this.getAccounts(connectionId);
+      // Failures reach the caller so background syncs can back off
+      const accounts = await this.listAccounts(connectionId);
       
       // Sync each account
       const syncedAccounts = await Promise.all(
@@ -170,23 +172,23 @@ export class MethodProvider extends LiabilityProvider {
       return syncedAccounts;
     } catch (error) {
       console.error('Method syncAllAccounts error:', error);
-      return [];
+      throw error;
     }
   }
   
-  async handleWebhook(event: any): Promise<void> {
-    // Handle Method webhooks
+  // Syncing is left to the caller, so the account is saved through the provider manager
+  async handleWebhook(event: any): Promise<MethodWebhookResult> {
     switch (event.type) {
       case 'connect.completed':
         // User completed the connect flow
         await this.handleConnectCompleted(event);
-        break;
+        return { sync: false };
       case 'account.updated':
         // Account data was updated
-        await this.handleAccountUpdated(event);
-        break;
+        return await this.handleAccountUpdated(event);
       default:
         console.log('Unhandled Method webhook event:', event.type);
+        return { sync: false };
     }
   }
   
@@ -213,13 +215,14 @@ export class MethodProvider extends LiabilityProvider {
     }
   }
   
-  private async handleAccountUpdated(event: any) {
-    // Sync the updated account
+  private async handleAccountUpdated(event: any): Promise<MethodWebhookResult> {
     const { account_id } = event.data;
     const connection = await storage.getMethodConnectionByAccountId(account_id);
-    if (connection) {
-      await this.syncAccount(connection.id, account_id);
+    // Paused connections are left alone until the user resumes them
+    if (!connection?.isActive) {
+      return { sync: false };
     }
+    return { connection, sync: true };
   }
   
   private async getOrCreateEntity(userId: string) {
@@ -264,6 +267,7 @@ export class MethodProvider extends LiabilityProvider {
       institutionName: institutionName || liability.name || 'Unknown Institution',
       accountName: liability.name || `${liability.type?.replace('_', ' ')} Account`,
       accountType: this.mapMethodAccountType(liability.type),
+      mask: liability.mask || undefined,
       currentBalance: Math.abs(liability.balance || 0),
       interestRate: liability.interest_rate || undefined,
       minimumPayment: liability.minimum_payment || undefined,
@@ -288,4 +292,47 @@ export class MethodProvider extends LiabilityProvider {
     
     return typeMap[type] || 'personal_loan';
   }
-}
\ No newline at end of file
+}
+
+function toConnectionMetadata(connection: MethodConnection): ConnectionMetadata {
+  return {
+    id: connection.id,
+    userId: connection.userId,
+    provider: 'method',
+    dataMode: 'live', // Method is always live or sandbox
+    institutionName: connection.institutionName,
+    nickname: connection.nickname,
+    isActive: connection.isActive || false,
+    lastSynced: connection.lastSynced,
+  };
+}
+
+export const methodRegistration: ProviderRegistration = {
+  provider: new MethodProvider(),
+  displayName: 'Method',
+  description: 'Connect your loans and liabilities',
+  capabilities: { webhooks: true, demo: true, perAccountSync: true },
+  syncIntervalMinutes: 720,
+  connections: {
+    async list(userId) {
+      const connections = await storage.getMethodConnections(userId, true);
+      return connections.map(toConnectionMetadata);
+    },
+    async update(userId, connectionId, changes) {
+      const connection = await storage.updateMethodConnection(connectionId, userId, changes);
+      return connection ? toConnectionMetadata(connection) : null;
+    },
+    async findForAccount(account) {
+      if (account.connectionId) {
+        const connection = await storage.getMethodConnection(account.connectionId);
+        return connection && connection.userId === account.userId ? toConnectionMetadata(connection) : null;
+      }
+      const connections = await storage.getMethodConnections(account.userId);
+      const connection = connections.find(c => c.accountId === account.methodAccountId);
+      return connection ? toConnectionMetadata(connection) : null;
+    },
+    accountId: account => account.methodAccountId,
+    matches: (existing, account) => existing.methodAccountId === account.providerId,
+    accountLink: account => ({ methodAccountId: account.providerId }),
+  },
+};
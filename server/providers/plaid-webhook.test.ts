@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  verifyPlaidWebhook,
+  cachedKeyLoader,
+  KEY_CACHE_TTL_MS,
+  type PlaidVerificationKey,
+} from './plaid-webhook';
+
+// Bodies as Plaid sends them (from the webhook docs), byte for byte
+const ITEM_ERROR_BODY = Buffer.from(
+  '{\n  "webhook_type": "ITEM",\n  "webhook_code": "ERROR",\n  "item_id": "wz666MBjYWTp2PDzzggYhM6oWWmBb",\n' +
+  '  "error": {\n    "display_message": null,\n    "error_code": "ITEM_LOGIN_REQUIRED",\n' +
+  '    "error_message": "the login details of this item have changed (credentials, MFA, or required user action) and a user login is required to update this information. use Link\'s update mode to restore the item to a good state",\n' +
+  '    "error_type": "ITEM_ERROR",\n    "status": 400\n  },\n  "environment": "production"\n}',
+);
+const DEFAULT_UPDATE_BODY = Buffer.from(
+  '{\n  "webhook_type": "TRANSACTIONS",\n  "webhook_code": "DEFAULT_UPDATE",\n  "item_id": "wz666MBjYWTp2PDzzggYhM6oWWmBb",\n' +
+  '  "error": null,\n  "new_transactions": 3,\n  "environment": "production"\n}',
+);
+
+const KEY_ID = '6c5516e1-92dc-479e-a8ff-5a51992e0001';
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+// Local stand-in for Plaid's signing key
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const jwk = publicKey.export({ format: 'jwk' });
+const verificationKey: PlaidVerificationKey = {
+  kid: KEY_ID,
+  kty: jwk.kty!,
+  crv: jwk.crv!,
+  x: jwk.x!,
+  y: jwk.y!,
+  alg: 'ES256',
+  expired_at: null,
+};
+
+function sign(body: Buffer, options: { iat?: number; alg?: string; kid?: string } = {}): string {
+  const header = { alg: options.alg ?? 'ES256', kid: options.kid ?? KEY_ID, typ: 'JWT' };
+  const payload = {
+    iat: options.iat ?? Math.floor(NOW.getTime() / 1000),
+    request_body_sha256: crypto.createHash('sha256').update(body).digest('hex'),
+  };
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = crypto.sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+const loadKey = async (keyId: string) => (keyId === KEY_ID ? verificationKey : null);
+
+test('accepts recorded payloads signed with the current key', async () => {
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY), loadKey, NOW), true);
+  assert.equal(await verifyPlaidWebhook(DEFAULT_UPDATE_BODY, sign(DEFAULT_UPDATE_BODY), loadKey, NOW), true);
+});
+
+test('rejects a body that does not match the signed hash', async () => {
+  const tampered = Buffer.from(ITEM_ERROR_BODY.toString().replace('ITEM_LOGIN_REQUIRED', 'PENDING_EXPIRATION'));
+  assert.equal(await verifyPlaidWebhook(tampered, sign(ITEM_ERROR_BODY), loadKey, NOW), false);
+});
+
+test('rejects missing, malformed and unsigned headers', async () => {
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, undefined, loadKey, NOW), false);
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, 'not-a-jwt', loadKey, NOW), false);
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY, { alg: 'none' }), loadKey, NOW), false);
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY, { kid: 'unknown' }), loadKey, NOW), false);
+});
+
+test('rejects a signature from another key', async () => {
+  const other = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey.export({ format: 'jwk' });
+  const otherKey = async () => ({ ...verificationKey, x: other.x!, y: other.y! });
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY), otherKey, NOW), false);
+});
+
+test('rejects webhooks signed more than five minutes away from now', async () => {
+  const sixMinutes = 6 * 60;
+  const issuedAt = Math.floor(NOW.getTime() / 1000);
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY, { iat: issuedAt - sixMinutes }), loadKey, NOW), false);
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY, { iat: issuedAt + sixMinutes }), loadKey, NOW), false);
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY, { iat: issuedAt - 60 }), loadKey, NOW), true);
+});
+
+test('rejects keys Plaid reports as expired', async () => {
+  const expiredKey = async () => ({ ...verificationKey, expired_at: Math.floor(NOW.getTime() / 1000) - 60 });
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, sign(ITEM_ERROR_BODY), expiredKey, NOW), false);
+});
+
+test('cached keys are refetched after the TTL, so a later expiry is seen', async () => {
+  let clock = NOW.getTime();
+  let fetches = 0;
+  let current = verificationKey;
+  const loader = cachedKeyLoader(async () => {
+    fetches++;
+    return current;
+  }, () => clock);
+  const token = sign(ITEM_ERROR_BODY);
+
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, token, loader, NOW), true);
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, token, loader, NOW), true);
+  assert.equal(fetches, 1);
+
+  // Plaid rotates the key out; the cached copy is still used until the TTL passes
+  current = { ...verificationKey, expired_at: Math.floor(NOW.getTime() / 1000) };
+  clock += KEY_CACHE_TTL_MS - 1;
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, token, loader, NOW), true);
+  assert.equal(fetches, 1);
+
+  clock += 1;
+  assert.equal(await verifyPlaidWebhook(ITEM_ERROR_BODY, token, loader, NOW), false);
+  assert.equal(fetches, 2);
+
+  // Expired keys aren't cached
+  await loader(KEY_ID);
+  assert.equal(fetches, 3);
+});
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { plaidClient } from '../plaid';
+
+// Plaid signs webhooks at send time; anything older than this is treated as a replay
+const MAX_WEBHOOK_AGE_SECONDS = 5 * 60;
+
+export interface PlaidVerificationKey {
+  kid: string;
+  kty: string;
+  crv: string;
+  x: string;
+  y: string;
+  alg: string;
+  expired_at: number | null;
+}
+
+export type VerificationKeyLoader = (keyId: string) => Promise<PlaidVerificationKey | null>;
+
+// Cached keys are refetched after this long, so a key Plaid has since expired stops being accepted
+export const KEY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Wrap a loader with a per-key cache. Keys already reported as expired are never cached.
+export function cachedKeyLoader(loadKey: VerificationKeyLoader, clock: () => number = Date.now): VerificationKeyLoader {
+  const cache = new Map<string, { key: PlaidVerificationKey; fetchedAt: number }>();
+
+  return async (keyId: string) => {
+    const cached = cache.get(keyId);
+    if (cached && clock() - cached.fetchedAt < KEY_CACHE_TTL_MS) {
+      return cached.key;
+    }
+
+    const key = await loadKey(keyId);
+    if (key && key.expired_at === null) {
+      cache.set(keyId, { key, fetchedAt: clock() });
+    } else {
+      cache.delete(keyId);
+    }
+    return key;
+  };
+}
+
+async function loadKeyFromPlaid(keyId: string): Promise<PlaidVerificationKey | null> {
+  if (!plaidClient) return null;
+
+  try {
+    const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+    return response.data.key;
+  } catch (error) {
+    console.error('Failed to fetch Plaid webhook verification key:', error);
+    return null;
+  }
+}
+
+export const fetchPlaidVerificationKey = cachedKeyLoader(loadKeyFromPlaid);
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+// Verify the Plaid-Verification header: an ES256 JWT whose payload carries a SHA-256 of the body
+export async function verifyPlaidWebhook(
+  rawBody: Buffer,
+  token: string | undefined,
+  loadKey: VerificationKeyLoader = fetchPlaidVerificationKey,
+  now: Date = new Date(),
+): Promise<boolean> {
+  if (!token) return false;
+
+  const segments = token.split('.');
+  if (segments.length !== 3) return false;
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  try {
+    const header = decodeSegment(encodedHeader);
+    if (header.alg !== 'ES256' || !header.kid) return false;
+
+    const key = await loadKey(header.kid);
+    if (!key || key.expired_at !== null) return false;
+
+    const publicKey = crypto.createPublicKey({
+      key: { kty: key.kty, crv: key.crv, x: key.x, y: key.y },
+      format: 'jwk',
+    });
+    const signatureValid = crypto.verify(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      { key: publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(encodedSignature, 'base64url'),
+    );
+    if (!signatureValid) return false;
+
+    const payload = decodeSegment(encodedPayload);
+    const ageSeconds = now.getTime() / 1000 - payload.iat;
+    if (typeof payload.iat !== 'number' || ageSeconds > MAX_WEBHOOK_AGE_SECONDS || ageSeconds < -MAX_WEBHOOK_AGE_SECONDS) {
+      return false;
+    }
+
+    const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+    const claimedHash = String(payload.request_body_sha256 || '');
+    return claimedHash.length === bodyHash.length &&
+      crypto.timingSafeEqual(Buffer.from(claimedHash), Buffer.from(bodyHash));
+  } catch (error) {
+    // Malformed header, payload or key
+    return false;
+  }
+}
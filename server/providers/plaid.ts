@@ -1,7 +1,36 @@
-import { LiabilityProvider, AccountData, ConnectOptions, ConnectResult, DataSource, DataMode } from './base';
-import { plaidClient, PLAID_PRODUCTS, PLAID_COUNTRY_CODES } from '../plaid';
+import { LiabilityProvider, AccountData, AprData, AprType, ConnectOptions, ConnectResult, DataSource, DataMode, ConnectionMetadata, ProviderRegistration, TransactionChanges, TransactionData } from './base';
+import { plaidClient, plaidErrorCode, PLAID_PRODUCTS, PLAID_OPTIONAL_PRODUCTS, PLAID_COUNTRY_CODES, plaidWebhookUrl } from '../plaid';
 import { config } from '../config';
 import { storage } from '../storage';
+import type { PlaidConnection } from '@shared/schema';
+import type { Transaction as PlaidTransaction } from 'plaid';
+
+// Plaid's apr_type values mapped to our bucket types
+const PLAID_APR_TYPES: { [key: string]: AprType } = {
+  purchase_apr: 'purchase',
+  cash_apr: 'cash_advance',
+  balance_transfer_apr: 'balance_transfer',
+  special: 'special',
+};
+
+// Items linked without the Transactions product, or before Plaid has pulled any history
+const TRANSACTIONS_UNAVAILABLE_ERRORS = ['PRODUCTS_NOT_SUPPORTED', 'ADDITIONAL_CONSENT_REQUIRED', 'PRODUCT_NOT_READY'];
+
+// Plaid asks for the whole sync to restart when the item changes between pages
+const MAX_TRANSACTION_SYNC_RESTARTS = 3;
+
+export interface PlaidWebhookEvent {
+  webhook_type: string;
+  webhook_code: string;
+  item_id: string;
+  error?: { error_code?: string } | null;
+  consent_expiration_time?: string | null;
+}
+
+export interface PlaidWebhookResult {
+  connection?: PlaidConnection;
+  sync: boolean; // Whether the connection's accounts should be refreshed
+}
 
 export class PlaidProvider extends LiabilityProvider {
   constructor(dataMode: DataMode = 'live') {
@@ -35,8 +64,9 @@ export class PlaidProvider extends LiabilityProvider {
           client_user_id: options.userId,
         },
         products: PLAID_PRODUCTS,
+        optional_products: PLAID_OPTIONAL_PRODUCTS,
         redirect_uri: options.redirectUrl,
-        webhook: options.webhookUrl,
+        webhook: plaidWebhookUrl(),
       };
       
       const response = await plaidClient.linkTokenCreate(request);
@@ -54,22 +84,23 @@ export class PlaidProvider extends LiabilityProvider {
     }
   }
   
-  async disconnect(connectionId: string): Promise<boolean> {
+  async disconnect(connectionId: string, userId: string): Promise<boolean> {
     try {
       const connection = await storage.getPlaidConnection(connectionId);
-      if (!connection || !plaidClient) return false;
-      
-      // Remove the item from Plaid
-      await plaidClient.itemRemove({
-        access_token: connection.accessToken,
-      });
+      if (!connection || connection.userId !== userId || !plaidClient) return false;
       
-      // Mark connection as inactive
-      await storage.updatePlaidConnection(connectionId, connection.userId, {
-        isActive: false,
-      });
+      // Remove the item from Plaid. Connections disconnected before they were deleted
+      // were already removed there, so a token Plaid no longer knows is fine.
+      try {
+        await plaidClient.itemRemove({
+          access_token: connection.accessToken,
+        });
+      } catch (error) {
+        if (plaidErrorCode(error) !== 'INVALID_ACCESS_TOKEN') throw error;
+      }
       
-      return true;
+      // The access token goes with the row
+      return await storage.deletePlaidConnection(connectionId, userId);
     } catch (error) {
       console.error('Plaid disconnect error:', error);
       return false;
@@ -77,6 +108,15 @@ export class PlaidProvider extends LiabilityProvider {
   }
   
   async getAccounts(connectionId: string): Promise<AccountData[]> {
+    try {
+      return await this.fetchAccounts(connectionId);
+    } catch (error) {
+      return [];
+    }
+  }
+  
+  // Like getAccounts, but failures reach the caller so background syncs can back off
+  private async fetchAccounts(connectionId: string): Promise<AccountData[]> {
     try {
       const connection = await storage.getPlaidConnection(connectionId);
       if (!connection || !plaidClient) return [];
@@ -105,7 +145,13 @@ export class PlaidProvider extends LiabilityProvider {
       return liabilityAccounts;
     } catch (error) {
       console.error('Plaid getAccounts error:', error);
-      return [];
+      if (plaidErrorCode(error) === 'ITEM_LOGIN_REQUIRED') {
+        const connection = await storage.getPlaidConnection(connectionId);
+        if (connection) {
+          await this.markNeedsReauth(connection, 'ITEM_LOGIN_REQUIRED');
+        }
+      }
+      throw error;
     }
   }
   
@@ -119,7 +165,69 @@ export class PlaidProvider extends LiabilityProvider {
   }
   
   async syncAllAccounts(connectionId: string): Promise<AccountData[]> {
-    return this.getAccounts(connectionId);
+    return this.fetchAccounts(connectionId);
+  }
+  
+  // Page through /transactions/sync from the stored cursor, then save the cursor
+  async syncTransactions(connectionId: string, save: (changes: TransactionChanges) => Promise<void>): Promise<void> {
+    const connection = await storage.getPlaidConnection(connectionId);
+    if (!connection || !plaidClient) return;
+    
+    const startCursor = connection.transactionsCursor || undefined;
+    let cursor = startCursor;
+    let changes: TransactionChanges = { added: [], modified: [], removed: [] };
+    let restarts = 0;
+    let hasMore = true;
+    
+    while (hasMore) {
+      try {
+        const response = await plaidClient.transactionsSync({
+          access_token: connection.accessToken,
+          cursor,
+          count: 500,
+        });
+        
+        changes.added.push(...response.data.added.map(transaction => this.mapPlaidTransaction(transaction)));
+        changes.modified.push(...response.data.modified.map(transaction => this.mapPlaidTransaction(transaction)));
+        changes.removed.push(...response.data.removed.map(transaction => transaction.transaction_id));
+        cursor = response.data.next_cursor;
+        hasMore = response.data.has_more;
+      } catch (error) {
+        const code = plaidErrorCode(error);
+        if (code === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' && restarts < MAX_TRANSACTION_SYNC_RESTARTS) {
+          restarts++;
+          cursor = startCursor;
+          changes = { added: [], modified: [], removed: [] };
+          continue;
+        }
+        if (code && TRANSACTIONS_UNAVAILABLE_ERRORS.includes(code)) return;
+        throw error;
+      }
+    }
+    
+    await save(changes);
+    await storage.updatePlaidConnection(connectionId, connection.userId, { transactionsCursor: cursor ?? null });
+  }
+  
+  // Link token for update mode, which repairs an existing item instead of adding a new one
+  async createUpdateLinkToken(connection: PlaidConnection, options: { redirectUrl?: string } = {}): Promise<string> {
+    if (!plaidClient) {
+      throw new Error('Plaid is not configured');
+    }
+    
+    const response = await plaidClient.linkTokenCreate({
+      client_name: 'Xelia Debt Tracker',
+      country_codes: PLAID_COUNTRY_CODES,
+      language: 'en',
+      user: {
+        client_user_id: connection.userId,
+      },
+      access_token: connection.accessToken,
+      redirect_uri: options.redirectUrl,
+      webhook: plaidWebhookUrl(),
+    });
+    
+    return response.data.link_token;
   }
   
   async exchangePublicToken(publicToken: string, userId: string): Promise<string> {
@@ -159,6 +267,7 @@ export class PlaidProvider extends LiabilityProvider {
         accessToken,
         institutionId: institutionId || 'unknown',
         institutionName,
+        itemId,
         isActive: true,
         lastSynced: new Date(),
       });
@@ -170,6 +279,58 @@ export class PlaidProvider extends LiabilityProvider {
     }
   }
   
+  async handleWebhook(event: PlaidWebhookEvent): Promise<PlaidWebhookResult> {
+    const connection = await storage.getPlaidConnectionByItemId(event.item_id);
+    if (!connection || !connection.isActive) {
+      console.log('Plaid webhook for unknown item:', event.item_id);
+      return { sync: false };
+    }
+    
+    switch (`${event.webhook_type}:${event.webhook_code}`) {
+      case 'TRANSACTIONS:DEFAULT_UPDATE':
+      case 'TRANSACTIONS:SYNC_UPDATES_AVAILABLE':
+      case 'LIABILITIES:DEFAULT_UPDATE':
+        // New balances, transactions or liability details are ready
+        return { connection, sync: true };
+      case 'ITEM:ERROR':
+        if (event.error?.error_code === 'ITEM_LOGIN_REQUIRED') {
+          await this.markNeedsReauth(connection, 'ITEM_LOGIN_REQUIRED');
+        } else {
+          console.log('Unhandled Plaid item error:', event.error?.error_code);
+        }
+        return { connection, sync: false };
+      case 'ITEM:PENDING_EXPIRATION':
+        await this.markNeedsReauth(
+          connection,
+          'PENDING_EXPIRATION',
+          event.consent_expiration_time ? new Date(event.consent_expiration_time) : null,
+        );
+        return { connection, sync: false };
+      case 'ITEM:USER_PERMISSION_REVOKED':
+        await this.markNeedsReauth(connection, 'USER_PERMISSION_REVOKED');
+        return { connection, sync: false };
+      case 'ITEM:LOGIN_REPAIRED':
+        // The user fixed the login elsewhere; pick up anything missed while it was broken
+        await storage.updatePlaidConnection(connection.id, connection.userId, {
+          needsReauth: false,
+          reauthReason: null,
+          consentExpiresAt: null,
+        });
+        return { connection, sync: true };
+      default:
+        console.log('Unhandled Plaid webhook:', event.webhook_type, event.webhook_code);
+        return { connection, sync: false };
+    }
+  }
+  
+  private async markNeedsReauth(connection: PlaidConnection, reason: string, consentExpiresAt?: Date | null) {
+    await storage.updatePlaidConnection(connection.id, connection.userId, {
+      needsReauth: true,
+      reauthReason: reason,
+      ...(consentExpiresAt !== undefined && { consentExpiresAt }),
+    });
+  }
+  
   private mapPlaidAccount(account: any, liabilities: any, institutionName: string): AccountData {
     const balance = account.balances.current || 0;
     
@@ -190,8 +351,10 @@ export class PlaidProvider extends LiabilityProvider {
       institutionName,
       accountName: account.name,
       accountType: this.mapPlaidAccountType(account),
+      mask: account.mask || undefined,
       currentBalance: Math.abs(balance),
       interestRate: this.extractInterestRate(liabilityDetails),
+      aprs: this.extractAprs(liabilityDetails),
       minimumPayment: liabilityDetails?.last_payment_amount || undefined,
       creditLimit: account.balances.limit || undefined,
       lastPaymentDate: liabilityDetails?.last_payment_date ? new Date(liabilityDetails.last_payment_date) : undefined,
@@ -202,6 +365,20 @@ export class PlaidProvider extends LiabilityProvider {
     };
   }
   
+  private mapPlaidTransaction(transaction: PlaidTransaction): TransactionData {
+    return {
+      providerId: transaction.transaction_id,
+      providerAccountId: transaction.account_id,
+      date: new Date(transaction.date),
+      // Plaid already reports purchases as positive and payments as negative
+      amount: transaction.amount,
+      description: transaction.name,
+      merchantName: transaction.merchant_name || undefined,
+      category: transaction.personal_finance_category?.primary || transaction.category?.[0] || undefined,
+      pending: transaction.pending,
+    };
+  }
+  
   private mapPlaidAccountType(account: any): AccountData['accountType'] {
     const subtype = (account.subtype || '').toLowerCase();
     
@@ -214,6 +391,19 @@ export class PlaidProvider extends LiabilityProvider {
     return 'personal_loan';
   }
   
+  private extractAprs(liabilityDetails: any): AprData[] | undefined {
+    if (!liabilityDetails?.aprs) return undefined;
+    
+    return liabilityDetails.aprs
+      .filter((apr: any) => PLAID_APR_TYPES[apr.apr_type] && apr.apr_percentage !== null)
+      .map((apr: any) => ({
+        type: PLAID_APR_TYPES[apr.apr_type],
+        rate: apr.apr_percentage,
+        balance: apr.balance_subject_to_apr ?? undefined,
+        interestCharge: apr.interest_charge_amount ?? undefined,
+      }));
+  }
+  
   private extractInterestRate(liabilityDetails: any): number | undefined {
     if (!liabilityDetails) return undefined;
     
@@ -235,4 +425,48 @@ export class PlaidProvider extends LiabilityProvider {
     
     return undefined;
   }
-}
\ No newline at end of file
+}
+
+function toConnectionMetadata(connection: PlaidConnection): ConnectionMetadata {
+  return {
+    id: connection.id,
+    userId: connection.userId,
+    provider: 'plaid',
+    dataMode: 'live', // Plaid is always live or sandbox
+    institutionName: connection.institutionName,
+    nickname: connection.nickname,
+    isActive: connection.isActive || false,
+    lastSynced: connection.lastSynced,
+    metadata: { needsReauth: connection.needsReauth || false },
+  };
+}
+
+export const plaidRegistration: ProviderRegistration = {
+  provider: new PlaidProvider(),
+  displayName: 'Plaid',
+  description: 'Connect your bank accounts and credit cards',
+  capabilities: { webhooks: true, demo: true, perAccountSync: true },
+  syncIntervalMinutes: 360,
+  connections: {
+    async list(userId) {
+      const connections = await storage.getPlaidConnections(userId, true);
+      return connections.map(toConnectionMetadata);
+    },
+    async update(userId, connectionId, changes) {
+      const connection = await storage.updatePlaidConnection(connectionId, userId, changes);
+      return connection ? toConnectionMetadata(connection) : null;
+    },
+    async findForAccount(account) {
+      if (account.connectionId) {
+        const connection = await storage.getPlaidConnection(account.connectionId);
+        return connection && connection.userId === account.userId ? toConnectionMetadata(connection) : null;
+      }
+      // Accounts saved before connections were recorded can only be placed when there is one item
+      const connections = (await storage.getPlaidConnections(account.userId)).filter(c => c.isActive);
+      return connections.length === 1 ? toConnectionMetadata(connections[0]) : null;
+    },
+    accountId: account => account.plaidAccountId,
+    matches: (existing, account) => existing.plaidAccountId === account.providerId,
+    accountLink: account => ({ plaidAccountId: account.providerId }),
+  },
+};
@@ -0,0 +1,111 @@
+import { addDays, subDays } from 'date-fns';
+import type { BalanceSnapshot, Payment } from '@shared/schema';
+import { roundCents } from './payoff';
+
+// A payment should show up as a balance drop by the first sync this many days after it was made
+export const POSTING_GRACE_DAYS = 5;
+
+// Payments dated shortly before the previous sync can still land in the following drop
+const MATCH_WINDOW_DAYS = 3;
+
+// Drops smaller than this are treated as rounding noise
+const MIN_DROP = 1;
+
+export interface BalanceDrop {
+  accountId: string;
+  from: Date; // Snapshot before the drop
+  to: Date; // Snapshot that first showed the lower balance
+  previousBalance: number;
+  newBalance: number;
+  amount: number;
+}
+
+export interface ReconciliationMatch {
+  accountId: string;
+  paymentIds: string[];
+  paymentTotal: number;
+  dropAmount: number;
+  difference: number; // Drop minus payments; negative usually means new charges or interest
+  amountMismatch: boolean;
+  observedAt: Date;
+}
+
+export interface ReconciliationResult {
+  matched: ReconciliationMatch[];
+  unpostedPayments: Payment[];
+  unmatchedDrops: BalanceDrop[];
+}
+
+export function findBalanceDrops(snapshots: BalanceSnapshot[]): BalanceDrop[] {
+  const ordered = [...snapshots].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const drops: BalanceDrop[] = [];
+
+  for (let i = 1; i < ordered.length; i++) {
+    const previousBalance = parseFloat(ordered[i - 1].balance);
+    const newBalance = parseFloat(ordered[i].balance);
+    if (previousBalance - newBalance >= MIN_DROP) {
+      drops.push({
+        accountId: ordered[i].accountId,
+        from: ordered[i - 1].recordedAt,
+        to: ordered[i].recordedAt,
+        previousBalance,
+        newBalance,
+        amount: roundCents(previousBalance - newBalance),
+      });
+    }
+  }
+
+  return drops;
+}
+
+// Reconcile one account's payments against the balance drops seen between its syncs
+export function reconcileAccount(payments: Payment[], snapshots: BalanceSnapshot[]): ReconciliationResult {
+  const drops = findBalanceDrops(snapshots);
+  const candidates = payments
+    .filter(payment => payment.status !== 'failed')
+    .sort((a, b) => a.paymentDate.getTime() - b.paymentDate.getTime());
+  const matchedIds = new Set<string>();
+
+  const matched: ReconciliationMatch[] = [];
+  const unmatchedDrops: BalanceDrop[] = [];
+
+  for (const drop of drops) {
+    const windowStart = subDays(drop.from, MATCH_WINDOW_DAYS);
+    const inWindow = candidates.filter(payment =>
+      !matchedIds.has(payment.id) && payment.paymentDate >= windowStart && payment.paymentDate <= drop.to
+    );
+
+    if (inWindow.length === 0) {
+      unmatchedDrops.push(drop);
+      continue;
+    }
+
+    inWindow.forEach(payment => matchedIds.add(payment.id));
+    const paymentTotal = roundCents(inWindow.reduce((sum, payment) => sum + parseFloat(payment.amount), 0));
+    const difference = roundCents(drop.amount - paymentTotal);
+
+    matched.push({
+      accountId: drop.accountId,
+      paymentIds: inWindow.map(payment => payment.id),
+      paymentTotal,
+      dropAmount: drop.amount,
+      difference,
+      amountMismatch: Math.abs(difference) > Math.max(MIN_DROP, paymentTotal * 0.1),
+      observedAt: drop.to,
+    });
+  }
+
+  // Only flag a payment once a sync well after its date has had the chance to show it
+  const lastSync = snapshots.reduce<Date | null>(
+    (latest, snapshot) => (!latest || snapshot.recordedAt > latest ? snapshot.recordedAt : latest),
+    null,
+  );
+  const unpostedPayments = candidates.filter(payment =>
+    !matchedIds.has(payment.id) &&
+    payment.status !== 'posted' &&
+    lastSync !== null &&
+    addDays(payment.paymentDate, POSTING_GRACE_DAYS) <= lastSync
+  );
+
+  return { matched, unpostedPayments, unmatchedDrops };
+}
@@ -0,0 +1,58 @@
+import { and, eq } from 'drizzle-orm';
+import { plaidConnections } from '@shared/schema';
+import { db, pool } from './db';
+import { Encryption } from './security';
+
+// Re-encrypts stored provider secrets with the current ENCRYPTION_KEY and refreshes their lookup hashes.
+// Also run it once when upgrading a database from before encryption, to seal plaintext tokens.
+// To rotate: move the old key into ENCRYPTION_PREVIOUS_KEYS under its ENCRYPTION_KEY_ID, set the new
+// ENCRYPTION_KEY with a new ENCRYPTION_KEY_ID, deploy, then run `npm run secrets:reencrypt`.
+// Once it reports nothing left to update the old key can be dropped. Pass --dry-run to only count.
+
+export interface ReencryptionResult {
+  checked: number;
+  updated: number;
+  failed: number;
+}
+
+export async function reencryptSecrets(dryRun = false): Promise<ReencryptionResult> {
+  const result: ReencryptionResult = { checked: 0, updated: 0, failed: 0 };
+  const rows = await db
+    .select({ id: plaidConnections.id, accessToken: plaidConnections.accessToken, accessTokenHash: plaidConnections.accessTokenHash })
+    .from(plaidConnections);
+
+  for (const row of rows) {
+    result.checked++;
+    try {
+      const accessToken = Encryption.decrypt(row.accessToken);
+      const accessTokenHash = Encryption.lookupHash(accessToken);
+      if (!Encryption.needsReencryption(row.accessToken) && row.accessTokenHash === accessTokenHash) continue;
+
+      if (!dryRun) {
+        // Skip rows written since they were read; they already use the current key
+        await db
+          .update(plaidConnections)
+          .set({ accessToken: Encryption.encrypt(accessToken), accessTokenHash })
+          .where(and(eq(plaidConnections.id, row.id), eq(plaidConnections.accessToken, row.accessToken)));
+      }
+      result.updated++;
+    } catch (error) {
+      result.failed++;
+      console.error(`Could not re-encrypt Plaid connection ${row.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return result;
+}
+
+const dryRun = process.argv.includes('--dry-run');
+reencryptSecrets(dryRun)
+  .then(({ checked, updated, failed }) => {
+    console.log(`Plaid connections: ${checked} checked, ${updated} ${dryRun ? 'to re-encrypt' : 're-encrypted'}, ${failed} failed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch(error => {
+    console.error('Re-encryption failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -2,16 +2,46 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./auth";
-import { insertDebtAccountSchema, updateDebtAccountSchema } from "@shared/schema";
-import { plaidClient, PLAID_PRODUCTS, PLAID_COUNTRY_CODES } from "./plaid";
+import { insertDebtAccountSchema, updateDebtAccountSchema, insertPromoPeriodSchema } from "@shared/schema";
+import { summarizeUtilization } from "@shared/utilization";
+import { monthlyInterest as accountMonthlyInterest, groupByAccount } from "./interest";
+import { toPayoffDebts } from "./payoff";
+import { projectDebtFree, recentMonthlyPayment, RECENT_PAYMENT_MONTHS } from "./projections";
+import { findDuplicateAccounts, conflictingLinks, pairKey } from "./duplicates";
+import { recordSyncRun } from "./sync-runs";
+import { subMonths } from "date-fns";
+import { plaidClient, plaidErrorCode, PLAID_PRODUCTS, PLAID_OPTIONAL_PRODUCTS, PLAID_COUNTRY_CODES, plaidWebhookUrl } from "./plaid";
 import { z } from "zod";
 import { apiRateLimiter, sanitizeMiddleware, Encryption, logSecurityEvent } from "./security";
 import { config } from "./config";
 import { isMethodConfigured, getMethodClient, MethodClient } from "./method";
 import { setupProviderRoutes } from "./routes/providers";
+import { setupPlanningRoutes } from "./routes/planning";
+import { setupCalendarRoutes } from "./routes/calendar";
+import { setupPaymentRoutes } from "./routes/payments";
+import { setupAdminRoutes } from "./routes/admin";
+import { setupConnectionRoutes } from "./routes/connections";
+
+const historyQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const transactionQuerySchema = historyQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const mergeAccountsSchema = z.object({
+  duplicateId: z.string().min(1),
+});
+
+const dismissDuplicateSchema = z.object({
+  accountIds: z.tuple([z.string().min(1), z.string().min(1)]),
+});
 
 // Helper function to sync Method accounts
-async function syncMethodAccounts(userId: string, entityId: string, accountId: string) {
+async function syncMethodAccounts(userId: string, connectionId: string, accountId: string): Promise<number> {
   try {
     const methodClient = getMethodClient();
     
@@ -23,22 +53,31 @@ async function syncMethodAccounts(userId: string, entityId: string, accountId: s
     const existingAccounts = await storage.getDebtAccounts(userId);
     const exists = existingAccounts.find(acc => acc.methodAccountId === account.id);
     
+    let saved;
     if (!exists) {
       // Create new account
-      await storage.createDebtAccount({
+      saved = await storage.createDebtAccount({
         ...accountData,
+        connectionId,
         userId,
       });
     } else {
       // Update existing account
-      await storage.updateDebtAccount(exists.id, userId, {
+      saved = await storage.updateDebtAccount(exists.id, userId, {
         currentBalance: accountData.currentBalance,
         interestRate: accountData.interestRate,
         minimumPayment: accountData.minimumPayment,
         creditLimit: accountData.creditLimit,
+        nextPaymentDueDate: accountData.nextPaymentDueDate,
+        ...(exists.syncSource === 'method' && { connectionId }),
         lastSynced: new Date(),
       });
     }
+    
+    if (saved) {
+      await storage.createBalanceSnapshot(saved, 'method');
+    }
+    return 1;
   } catch (error) {
     console.error('Error syncing Method accounts:', error);
     throw error;
@@ -46,7 +85,7 @@ async function syncMethodAccounts(userId: string, entityId: string, accountId: s
 }
 
 // Helper function to sync accounts from Plaid
-async function syncPlaidAccounts(userId: string, accessToken: string, institutionName: string) {
+async function syncPlaidAccounts(userId: string, connectionId: string, accessToken: string, institutionName: string): Promise<number> {
   try {
     if (!plaidClient) {
       throw new Error('Plaid is not configured');
@@ -54,10 +93,12 @@ async function syncPlaidAccounts(userId: string, accessToken: string, institutio
     
     // Get accounts
     const accountsResponse = await plaidClient.accountsGet({ access_token: accessToken });
+    let synced = 0;
     
     // Process liability accounts
     for (const account of accountsResponse.data.accounts) {
       if (account.type === 'credit' || account.type === 'loan') {
+        synced++;
         const balances = account.balances;
         const balance = balances.current || 0;
         
@@ -72,12 +113,15 @@ async function syncPlaidAccounts(userId: string, accessToken: string, institutio
         const existingAccounts = await storage.getDebtAccounts(userId);
         const exists = existingAccounts.find(acc => acc.plaidAccountId === account.account_id);
         
+        let saved;
         if (!exists) {
           // Create new account
-          await storage.createDebtAccount({
+          saved = await storage.createDebtAccount({
             userId,
             plaidAccountId: account.account_id,
             syncSource: 'plaid',
+            connectionId,
+            mask: account.mask,
             accountType,
             institutionName,
             accountNickname: account.name,
@@ -90,14 +134,20 @@ async function syncPlaidAccounts(userId: string, accessToken: string, institutio
           });
         } else {
           // Update existing account
-          await storage.updateDebtAccount(exists.id, userId, {
+          saved = await storage.updateDebtAccount(exists.id, userId, {
             currentBalance: balance.toFixed(2),
             creditLimit: account.type === 'credit' && balances.limit ? balances.limit.toFixed(2) : null,
+            ...(exists.syncSource === 'plaid' && { connectionId }),
             lastSynced: new Date(),
           });
         }
+        
+        if (saved) {
+          await storage.createBalanceSnapshot(saved, 'plaid');
+        }
       }
     }
+    return synced;
   } catch (error) {
     console.error('Error syncing Plaid accounts:', error);
     throw error;
@@ -143,7 +193,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.session.userId!;
       const accounts = await storage.getDebtAccounts(userId);
-      res.json(accounts);
+      const accountIds = accounts.map(a => a.id);
+      const buckets = groupByAccount(await storage.getAprBuckets(accountIds));
+      const promos = groupByAccount(await storage.getPromoPeriods(accountIds));
+      res.json(accounts.map(account => ({
+        ...account,
+        aprBuckets: buckets.get(account.id) || [],
+        promoPeriods: promos.get(account.id) || [],
+      })));
     } catch (error) {
       console.error("Error fetching debt accounts:", error);
       res.status(500).json({ message: "Failed to fetch debt accounts" });
@@ -155,6 +212,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.session.userId!;
       const validatedData = insertDebtAccountSchema.parse(req.body);
       const account = await storage.createDebtAccount({ ...validatedData, userId });
+      await storage.createBalanceSnapshot(account, 'manual');
       res.status(201).json(account);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -178,6 +236,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
+      // Only record history when a tracked figure was part of the edit
+      const tracked = ['currentBalance', 'interestRate', 'minimumPayment', 'creditLimit'] as const;
+      if (tracked.some(field => validatedData[field] !== undefined)) {
+        await storage.createBalanceSnapshot(account, 'manual');
+      }
+      
       res.json(account);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -189,6 +253,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/debt-accounts/:id/history', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { id } = req.params;
+      const { from, to } = historyQuerySchema.parse(req.query);
+      
+      const account = await storage.getDebtAccount(id, userId);
+      if (!account) {
+        res.status(404).json({ message: "Account not found" });
+        return;
+      }
+      
+      const snapshots = await storage.getBalanceSnapshots(id, userId, { from, to });
+      res.json(snapshots);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        console.error("Error fetching balance history:", error);
+        res.status(500).json({ message: "Failed to fetch balance history" });
+      }
+    }
+  });
+
+  // Card activity synced from the account's provider, newest first
+  app.get('/api/debt-accounts/:id/transactions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { id } = req.params;
+      const { from, to, limit, offset } = transactionQuerySchema.parse(req.query);
+      
+      const account = await storage.getDebtAccount(id, userId);
+      if (!account) {
+        res.status(404).json({ message: "Account not found" });
+        return;
+      }
+      
+      const { transactions, total } = await storage.getTransactions(id, userId, { from, to, limit, offset });
+      res.json({ transactions, total, limit, offset });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        console.error("Error fetching transactions:", error);
+        res.status(500).json({ message: "Failed to fetch transactions" });
+      }
+    }
+  });
+
+  // Promotional rate periods
+  app.get('/api/debt-accounts/:id/promos', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const account = await storage.getDebtAccount(req.params.id, userId);
+      if (!account) {
+        res.status(404).json({ message: "Account not found" });
+        return;
+      }
+      
+      res.json(await storage.getPromoPeriods([account.id]));
+    } catch (error) {
+      console.error("Error fetching promo periods:", error);
+      res.status(500).json({ message: "Failed to fetch promo periods" });
+    }
+  });
+
+  app.post('/api/debt-accounts/:id/promos', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const validatedData = insertPromoPeriodSchema.parse(req.body);
+      
+      const account = await storage.getDebtAccount(req.params.id, userId);
+      if (!account) {
+        res.status(404).json({ message: "Account not found" });
+        return;
+      }
+      
+      const promo = await storage.createPromoPeriod({ ...validatedData, accountId: account.id, userId });
+      res.status(201).json(promo);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating promo period:", error);
+        res.status(500).json({ message: "Failed to create promo period" });
+      }
+    }
+  });
+
+  app.delete('/api/debt-accounts/:id/promos/:promoId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const success = await storage.deletePromoPeriod(req.params.promoId, userId);
+      
+      if (!success) {
+        res.status(404).json({ message: "Promo period not found" });
+        return;
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting promo period:", error);
+      res.status(500).json({ message: "Failed to delete promo period" });
+    }
+  });
+
   app.delete('/api/debt-accounts/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.session.userId!;
@@ -207,6 +377,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Accounts that look like the same debt linked or entered twice
+  app.get('/api/debt-accounts/duplicates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const accounts = await storage.getDebtAccounts(userId);
+      const dismissals = await storage.getDuplicateDismissals(userId);
+      const dismissed = new Set(dismissals.map(d => pairKey(d.accountId, d.otherAccountId)));
+      res.json(findDuplicateAccounts(accounts, dismissed));
+    } catch (error) {
+      console.error("Error finding duplicate accounts:", error);
+      res.status(500).json({ message: "Failed to find duplicate accounts" });
+    }
+  });
+
+  app.post('/api/debt-accounts/duplicates/dismiss', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { accountIds: [accountId, otherAccountId] } = dismissDuplicateSchema.parse(req.body);
+      const account = await storage.getDebtAccount(accountId, userId);
+      const other = await storage.getDebtAccount(otherAccountId, userId);
+      
+      if (!account || !other) {
+        res.status(404).json({ message: "Account not found" });
+        return;
+      }
+      
+      await storage.createDuplicateDismissal(userId, account.id, other.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error dismissing duplicate:", error);
+        res.status(500).json({ message: "Failed to dismiss duplicate" });
+      }
+    }
+  });
+
+  // Keep this account and fold the duplicate into it
+  app.post('/api/debt-accounts/:id/merge', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { id } = req.params;
+      const { duplicateId } = mergeAccountsSchema.parse(req.body);
+      
+      if (duplicateId === id) {
+        res.status(400).json({ message: "An account cannot be merged with itself" });
+        return;
+      }
+      
+      const account = await storage.getDebtAccount(id, userId);
+      const duplicate = await storage.getDebtAccount(duplicateId, userId);
+      if (!account || !duplicate) {
+        res.status(404).json({ message: "Account not found" });
+        return;
+      }
+      
+      const conflicts = conflictingLinks(account, duplicate);
+      if (conflicts.length > 0) {
+        res.status(409).json({ message: "These accounts are linked to different accounts at the same provider", conflicts });
+        return;
+      }
+      
+      const merged = await storage.mergeDebtAccounts(account.id, duplicate.id, userId);
+      res.json(merged);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error merging debt accounts:", error);
+        res.status(500).json({ message: "Failed to merge debt accounts" });
+      }
+    }
+  });
+
   // Debt summary calculation
   app.get('/api/debt-summary', isAuthenticated, async (req: any, res) => {
     try {
@@ -217,14 +462,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const totalMinimumPayments = accounts.reduce((sum, account) => 
         sum + (account.minimumPayment ? parseFloat(account.minimumPayment) : 0), 0);
       
-      // Calculate weighted average interest rate
-      const weightedInterest = accounts.reduce((sum, account) => 
-        sum + (parseFloat(account.currentBalance) * parseFloat(account.interestRate)), 0);
-      const weightedAvgRate = totalDebt > 0 ? weightedInterest / totalDebt : 0;
-      
-      // Calculate monthly interest
+      // Calculate monthly interest at any running promo rate, otherwise per APR bucket
+      // where the card reports them
+      const accountIds = accounts.map(a => a.id);
+      const buckets = groupByAccount(await storage.getAprBuckets(accountIds));
+      const promoRows = await storage.getPromoPeriods(accountIds);
+      const promos = groupByAccount(promoRows);
       const monthlyInterest = accounts.reduce((sum, account) => 
-        sum + (parseFloat(account.currentBalance) * parseFloat(account.interestRate) / 100 / 12), 0);
+        sum + accountMonthlyInterest(account, buckets.get(account.id), promos.get(account.id)), 0);
+      
+      // Weighted average interest rate implied by that interest
+      const weightedAvgRate = totalDebt > 0 ? monthlyInterest * 12 * 100 / totalDebt : 0;
+      
+      // Debt-free projections at the minimums and at what was actually paid recently
+      const debts = toPayoffDebts(accounts, promoRows);
+      const minimumOnly = projectDebtFree(debts, new Map());
+      
+      const historyStart = subMonths(new Date(), RECENT_PAYMENT_MONTHS);
+      const recentPayments = groupByAccount(await storage.getPayments(userId, { from: historyStart }));
+      const recentSnapshots = groupByAccount(await storage.getBalanceSnapshotsForAccounts(accountIds, userId, { from: historyStart }));
+      const recentRates = new Map<string, number>();
+      for (const account of accounts) {
+        const rate = recentMonthlyPayment(
+          { payments: recentPayments.get(account.id) || [], snapshots: recentSnapshots.get(account.id) || [] },
+          account.createdAt,
+          parseFloat(account.interestRate),
+        );
+        if (rate !== null) {
+          recentRates.set(account.id, rate);
+        }
+      }
+      // Accounts without any history are assumed to be paid at their minimum
+      const recentPace = recentRates.size > 0 ? projectDebtFree(debts, recentRates) : null;
       
       res.json({
         totalDebt,
@@ -232,6 +501,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalMinimumPayments,
         monthlyInterest,
         accountCount: accounts.length,
+        utilization: summarizeUtilization(accounts),
+        projection: {
+          minimumOnly,
+          recentPace,
+          // Interest still to come at the minimums, excluding accounts that never pay off
+          lifetimeInterestRemaining: minimumOnly.totalInterest,
+        },
       });
     } catch (error) {
       console.error("Error calculating debt summary:", error);
@@ -239,6 +515,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Payoff planning routes
+  setupPlanningRoutes(app);
+
+  // Payment calendar and iCalendar feed
+  setupCalendarRoutes(app);
+
+  // Payments ledger and reconciliation
+  setupPaymentRoutes(app);
+
+  // Admin tools
+  setupAdminRoutes(app);
+
+  // Connection management across providers
+  setupConnectionRoutes(app);
+
   // Plaid connection routes
   app.post('/api/plaid/link-token', isAuthenticated, async (req: any, res) => {
     try {
@@ -263,8 +554,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
         client_name: "Xelia",
         products: PLAID_PRODUCTS,
+        optional_products: PLAID_OPTIONAL_PRODUCTS,
         country_codes: PLAID_COUNTRY_CODES,
         language: 'en',
+        webhook: plaidWebhookUrl(),
       };
 
       const linkTokenResponse = await plaidClient.linkTokenCreate(linkTokenRequest);
@@ -320,12 +613,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         accessToken,
         institutionId: institutionId || '',
         institutionName,
+        itemId,
         isActive: true,
         lastSynced: new Date(),
       });
 
       // Fetch and create debt accounts
-      await syncPlaidAccounts(userId, accessToken, institutionName);
+      await syncPlaidAccounts(userId, connection.id, accessToken, institutionName);
 
       res.json({ 
         success: true, 
@@ -345,20 +639,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const connections = await storage.getPlaidConnections(userId);
 
       let syncedCount = 0;
+      const needsReauth: string[] = [];
       for (const connection of connections) {
+        // Broken logins keep failing until the user reconnects through Plaid Link
+        if (connection.needsReauth) {
+          needsReauth.push(connection.id);
+          continue;
+        }
+        
         try {
-          await syncPlaidAccounts(userId, connection.accessToken, connection.institutionName);
+          await recordSyncRun(
+            { userId, provider: 'plaid', connectionId: connection.id, trigger: 'manual' },
+            () => syncPlaidAccounts(userId, connection.id, connection.accessToken, connection.institutionName),
+          );
           await storage.updatePlaidConnection(connection.id, userId, { lastSynced: new Date() });
           syncedCount++;
         } catch (error) {
           console.error(`Failed to sync connection ${connection.id}:`, error);
+          if (plaidErrorCode(error) === 'ITEM_LOGIN_REQUIRED') {
+            await storage.updatePlaidConnection(connection.id, userId, {
+              needsReauth: true,
+              reauthReason: 'ITEM_LOGIN_REQUIRED',
+            });
+            needsReauth.push(connection.id);
+          }
         }
       }
 
       res.json({ 
         success: true, 
         synced_connections: syncedCount,
-        total_connections: connections.length 
+        total_connections: connections.length,
+        needs_reauth: needsReauth,
       });
     } catch (error) {
       console.error("Error syncing accounts:", error);
@@ -466,7 +778,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         
         // Sync accounts immediately
-        await syncMethodAccounts(userId, entity_id, account_id);
+        await syncMethodAccounts(userId, connection.id, account_id);
         
         res.json({
           success: true,
@@ -491,7 +803,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         for (const connection of connections) {
           try {
-            await syncMethodAccounts(userId, connection.entityId, connection.accountId);
+            await recordSyncRun(
+              { userId, provider: 'method', connectionId: connection.id, trigger: 'manual' },
+              () => syncMethodAccounts(userId, connection.id, connection.accountId),
+            );
             await storage.updateMethodConnection(connection.id, userId, { 
               lastSynced: new Date() 
             });
@@ -0,0 +1,55 @@
+import type { Express } from 'express';
+import { z } from 'zod';
+import { isAdmin } from '../auth';
+import { storage } from '../storage';
+import { isReclaimable, replayWebhookEvent } from '../webhook-events';
+import { getWebhookHandler } from '../webhook-handlers';
+
+const webhookEventQuerySchema = z.object({
+  status: z.enum(['processing', 'processed', 'failed']).optional(),
+});
+
+export function setupAdminRoutes(app: Express) {
+  app.get('/api/admin/webhook-events', isAdmin, async (req: any, res) => {
+    try {
+      const { status } = webhookEventQuerySchema.parse(req.query);
+      const events = await storage.getWebhookEvents(status);
+      res.json(events);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      } else {
+        console.error('Error fetching webhook events:', error);
+        res.status(500).json({ message: 'Failed to fetch webhook events' });
+      }
+    }
+  });
+
+  // Process a failed or abandoned event again from its stored payload
+  app.post('/api/admin/webhook-events/:id/replay', isAdmin, async (req: any, res) => {
+    try {
+      const event = await storage.getWebhookEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: 'Webhook event not found' });
+      }
+      if (!isReclaimable(event)) {
+        return res.status(409).json({ message: 'Only failed or abandoned events can be replayed' });
+      }
+
+      const handler = getWebhookHandler(event.provider);
+      if (!handler) {
+        return res.status(400).json({ message: `No webhook handler for ${event.provider}` });
+      }
+
+      const outcome = await replayWebhookEvent(event.id, handler);
+      if (!outcome) {
+        return res.status(409).json({ message: 'Event is already being processed' });
+      }
+
+      res.json(outcome.event);
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      res.status(500).json({ message: 'Failed to replay webhook event' });
+    }
+  });
+}
@@ -0,0 +1,83 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { DebtAccount } from '@shared/schema';
+import { config } from '../config';
+import { storage } from '../storage';
+import { setupCalendarRoutes } from './calendar';
+
+let server: Server;
+let baseUrl: string;
+
+before(() => {
+  mock.method(storage, 'getDebtAccounts', async () => []);
+
+  const app = express();
+  app.use((req: any, _res, next) => {
+    req.session = { userId: 'user-1' };
+    next();
+  });
+  setupCalendarRoutes(app);
+
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+test('returns the requested month', async () => {
+  const response = await fetch(`${baseUrl}/api/calendar?month=2024-12`);
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { month: '2024-12', events: [] });
+});
+
+test('rejects months outside 01-12', async () => {
+  for (const month of ['2024-13', '2024-00', '2024-1']) {
+    const response = await fetch(`${baseUrl}/api/calendar?month=${month}`);
+    assert.equal(response.status, 400, month);
+  }
+});
+
+test('feed links are built from PUBLIC_URL, not the Host header', async (t) => {
+  t.mock.method(storage, 'setCalendarTokenHash', async () => {});
+  const previous = config.PUBLIC_URL;
+  t.after(() => {
+    config.PUBLIC_URL = previous;
+  });
+
+  config.PUBLIC_URL = undefined;
+  assert.equal((await fetch(`${baseUrl}/api/calendar/feed`, { method: 'POST' })).status, 503);
+
+  config.PUBLIC_URL = 'https://app.example.com/';
+  const response = await fetch(`${baseUrl}/api/calendar/feed`, { method: 'POST', headers: { Host: 'evil.example' } });
+  assert.equal(response.status, 200);
+  assert.match((await response.json()).url, /^https:\/\/app\.example\.com\/api\/calendar\/feed\/[0-9a-f]+\.ics$/);
+});
+
+test('feed lines are folded at 75 octets without splitting characters', async (t) => {
+  const nickname = 'Carte de crédit é'.repeat(8);
+  t.mock.method(storage, 'getUserByCalendarTokenHash', async () => ({ id: 'user-1' }));
+  t.mock.method(storage, 'getDebtAccounts', async () => [{
+    id: 'card-1',
+    institutionName: 'Banque',
+    accountNickname: nickname,
+    accountType: 'credit_card',
+    currentBalance: '100.00',
+    minimumPayment: '25.00',
+    dueDate: 15,
+    nextPaymentDueDate: null,
+  } as DebtAccount]);
+
+  const response = await fetch(`${baseUrl}/api/calendar/feed/token.ics`);
+  const body = await response.text();
+  const lines = body.split('\r\n');
+  assert.ok(lines.every(line => Buffer.byteLength(line, 'utf8') <= 75));
+  assert.ok(!body.includes('\ufffd'));
+  // Unfolding gives back the full summary
+  assert.ok(body.replace(/\r\n /g, '').includes(`SUMMARY:Payment due: ${nickname}`));
+});
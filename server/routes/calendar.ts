@@ -0,0 +1,87 @@
+import type { Express } from 'express';
+import { z } from 'zod';
+import { format, parse, startOfMonth, subMonths } from 'date-fns';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { logSecurityEvent } from '../security';
+import { config, getPublicUrl } from '../config';
+import {
+  generateCalendarToken,
+  hashCalendarToken,
+  paymentEventsForMonth,
+  paymentEventsForRange,
+  renderICalendar,
+} from '../calendar';
+
+// The feed covers last month plus the coming year
+const FEED_MONTHS_BACK = 1;
+const FEED_MONTHS = 13;
+
+const calendarQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM').optional(),
+});
+
+export function setupCalendarRoutes(app: Express) {
+  // Payment due dates for a single month
+  app.get('/api/calendar', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { month } = calendarQuerySchema.parse(req.query);
+      const monthStart = month ? parse(month, 'yyyy-MM', new Date()) : startOfMonth(new Date());
+
+      const accounts = await storage.getDebtAccounts(userId);
+      res.json({
+        month: format(monthStart, 'yyyy-MM'),
+        events: paymentEventsForMonth(accounts, monthStart),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      } else {
+        console.error('Error building payment calendar:', error);
+        res.status(500).json({ message: 'Failed to build payment calendar' });
+      }
+    }
+  });
+
+  // Create (or rotate) the user's iCalendar subscription link
+  app.post('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      if (!config.PUBLIC_URL) {
+        return res.status(503).json({ message: 'Calendar feeds need PUBLIC_URL to be configured' });
+      }
+
+      const { token, tokenHash } = generateCalendarToken();
+      await storage.setCalendarTokenHash(userId, tokenHash);
+
+      logSecurityEvent('CALENDAR_FEED_TOKEN_ROTATED', { userId });
+
+      res.json({ url: getPublicUrl(`/api/calendar/feed/${token}.ics`) });
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      res.status(500).json({ message: 'Failed to create calendar feed' });
+    }
+  });
+
+  // Token-authenticated feed for calendar apps, which can't send a session cookie
+  app.get('/api/calendar/feed/:token.ics', async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarTokenHash(hashCalendarToken(req.params.token));
+      if (!user) {
+        return res.status(404).json({ message: 'Calendar feed not found' });
+      }
+
+      const accounts = await storage.getDebtAccounts(user.id);
+      const start = subMonths(startOfMonth(new Date()), FEED_MONTHS_BACK);
+      const events = paymentEventsForRange(accounts, start, FEED_MONTHS);
+
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Content-Disposition', 'inline; filename="xelia-payments.ics"');
+      res.send(renderICalendar(events));
+    } catch (error) {
+      console.error('Error rendering calendar feed:', error);
+      res.status(500).json({ message: 'Failed to render calendar feed' });
+    }
+  });
+}
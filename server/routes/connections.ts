@@ -0,0 +1,76 @@
+import type { Express } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../auth';
+import { providerManager } from '../providers';
+import { normalizeSyncError } from '../sync-runs';
+
+const updateConnectionSchema = z.object({
+  nickname: z.string().trim().max(100).nullable().optional(), // Empty or null goes back to the institution name
+  isActive: z.boolean().optional(), // false pauses syncing, true resumes it
+}).refine(changes => changes.nickname !== undefined || changes.isActive !== undefined, {
+  message: 'Nothing to update',
+});
+
+// Connections are disconnected through DELETE /api/providers/:source/:connectionId
+export function setupConnectionRoutes(app: Express) {
+  app.get('/api/connections', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const connections = await providerManager.listConnections(userId);
+      res.json({ connections });
+    } catch (error) {
+      console.error('Error getting connections:', error);
+      res.status(500).json({ message: 'Failed to get connections' });
+    }
+  });
+
+  // Rename, pause or resume
+  app.put('/api/connections/:source/:connectionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { source, connectionId } = req.params;
+      const { nickname, isActive } = updateConnectionSchema.parse(req.body);
+
+      const updated = await providerManager.updateConnection(userId, source, connectionId, {
+        ...(nickname !== undefined && { nickname: nickname || null }),
+        ...(isActive !== undefined && { isActive }),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+
+      const connection = (await providerManager.listConnections(userId)).find(c => c.id === connectionId);
+      res.json({ success: true, connection });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      } else {
+        console.error('Error updating connection:', error);
+        res.status(500).json({ message: 'Failed to update connection' });
+      }
+    }
+  });
+
+  app.post('/api/connections/:source/:connectionId/sync', isAuthenticated, async (req: any, res) => {
+    const userId = req.session.userId!;
+    const { source, connectionId } = req.params;
+
+    try {
+      const connection = (await providerManager.getUserConnections(userId))
+        .find(c => c.id === connectionId && c.provider === source);
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      if (!connection.isActive) {
+        return res.status(409).json({ message: 'Resume the connection before syncing it' });
+      }
+
+      const accountsCount = await providerManager.syncConnection(userId, connectionId);
+      res.json({ success: true, accountsCount });
+    } catch (error) {
+      // The failure is recorded as a sync run, so the connection shows it too
+      console.error(`Error syncing ${source} connection ${connectionId}:`, error);
+      res.status(502).json({ message: 'Sync failed', errorCode: normalizeSyncError(error) });
+    }
+  });
+}
@@ -0,0 +1,143 @@
+import type { Express } from 'express';
+import { z } from 'zod';
+import { insertPaymentSchema, updatePaymentSchema } from '@shared/schema';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { reconcileAccount, type ReconciliationResult } from '../reconciliation';
+
+const paymentQuerySchema = z.object({
+  accountId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export function setupPaymentRoutes(app: Express) {
+  app.get('/api/payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const filters = paymentQuerySchema.parse(req.query);
+      const payments = await storage.getPayments(userId, filters);
+      res.json(payments);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      } else {
+        console.error('Error fetching payments:', error);
+        res.status(500).json({ message: 'Failed to fetch payments' });
+      }
+    }
+  });
+
+  // Compare the ledger with balance drops seen between syncs
+  app.get('/api/payments/reconciliation', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { accountId, from, to } = paymentQuerySchema.parse(req.query);
+      const accounts = (await storage.getDebtAccounts(userId))
+        .filter(account => !accountId || account.id === accountId);
+
+      const result: ReconciliationResult = { matched: [], unpostedPayments: [], unmatchedDrops: [] };
+      for (const account of accounts) {
+        const [payments, snapshots] = await Promise.all([
+          storage.getPayments(userId, { accountId: account.id, from, to }),
+          storage.getBalanceSnapshots(account.id, userId, { from, to }),
+        ]);
+        const accountResult = reconcileAccount(payments, snapshots);
+        result.matched.push(...accountResult.matched);
+        result.unpostedPayments.push(...accountResult.unpostedPayments);
+        result.unmatchedDrops.push(...accountResult.unmatchedDrops);
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      } else {
+        console.error('Error reconciling payments:', error);
+        res.status(500).json({ message: 'Failed to reconcile payments' });
+      }
+    }
+  });
+
+  app.get('/api/payments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const payment = await storage.getPayment(req.params.id, userId);
+
+      if (!payment) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      res.json(payment);
+    } catch (error) {
+      console.error('Error fetching payment:', error);
+      res.status(500).json({ message: 'Failed to fetch payment' });
+    }
+  });
+
+  app.post('/api/payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const validatedData = insertPaymentSchema.parse(req.body);
+
+      const account = await storage.getDebtAccount(validatedData.accountId, userId);
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+
+      const payment = await storage.createPayment({ ...validatedData, userId });
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      } else {
+        console.error('Error creating payment:', error);
+        res.status(500).json({ message: 'Failed to create payment' });
+      }
+    }
+  });
+
+  app.put('/api/payments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const validatedData = updatePaymentSchema.parse(req.body);
+
+      if (validatedData.accountId) {
+        const account = await storage.getDebtAccount(validatedData.accountId, userId);
+        if (!account) {
+          return res.status(404).json({ message: 'Account not found' });
+        }
+      }
+
+      const payment = await storage.updatePayment(req.params.id, userId, validatedData);
+      if (!payment) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      } else {
+        console.error('Error updating payment:', error);
+        res.status(500).json({ message: 'Failed to update payment' });
+      }
+    }
+  });
+
+  app.delete('/api/payments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const success = await storage.deletePayment(req.params.id, userId);
+
+      if (!success) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      res.status(500).json({ message: 'Failed to delete payment' });
+    }
+  });
+}
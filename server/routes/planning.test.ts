@@ -0,0 +1,73 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { addMonths, format } from 'date-fns';
+import type { DebtAccount } from '@shared/schema';
+import { storage } from '../storage';
+import { setupPlanningRoutes } from './planning';
+
+const card = {
+  id: 'card-1',
+  accountNickname: 'Card',
+  institutionName: 'Bank',
+  currentBalance: '2000.00',
+  interestRate: '24.00',
+  minimumPayment: '60.00',
+} as DebtAccount;
+
+let server: Server;
+let baseUrl: string;
+
+before(() => {
+  mock.method(storage, 'getDebtAccounts', async () => [card]);
+  mock.method(storage, 'getPromoPeriods', async () => []);
+
+  const app = express();
+  app.use(express.json());
+  app.use((req: any, _res, next) => {
+    req.session = { userId: 'user-1' };
+    next();
+  });
+  setupPlanningRoutes(app);
+
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+const simulateLumpSum = (month: string) =>
+  fetch(`${baseUrl}/api/payoff-plan/simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      scenarios: [{ name: 'Bonus', adjustments: [{ type: 'lump_sum', amount: 500, month }] }],
+    }),
+  });
+
+test('a lump sum in a coming month is applied', async () => {
+  const response = await simulateLumpSum(format(addMonths(new Date(), 2), 'yyyy-MM'));
+  assert.equal(response.status, 200);
+
+  const { scenarios } = await response.json();
+  assert.ok(scenarios[0].interestSaved > 0);
+});
+
+test('rejects lump sums in months that do not exist', async () => {
+  for (const month of ['2030-13', '2030-00']) {
+    const response = await simulateLumpSum(month);
+    assert.equal(response.status, 400, month);
+  }
+});
+
+test('rejects lump sums in past months', async () => {
+  const month = format(addMonths(new Date(), -1), 'yyyy-MM');
+  const response = await simulateLumpSum(month);
+  assert.equal(response.status, 400);
+  assert.deepEqual((await response.json()).months, [month]);
+});
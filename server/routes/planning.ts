@@ -0,0 +1,142 @@
+import type { Express } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { simulatePayoff, toPayoffDebts, buildAmortizationSchedule, roundCents, INSTALLMENT_ACCOUNT_TYPES } from '../payoff';
+import { compareScenarios, pastLumpSumMonths, simulationRequestSchema } from '../scenarios';
+
+const payoffPlanQuerySchema = z.object({
+  strategy: z.enum(['avalanche', 'snowball', 'custom']).default('avalanche'),
+  monthlyBudget: z.coerce.number().positive().optional(),
+  order: z.string().optional(), // Comma-separated account IDs for the custom strategy
+});
+
+const amortizationQuerySchema = z.object({
+  extraPrincipal: z.coerce.number().min(0).default(0),
+});
+
+// The user's open debts along with their promotional rate periods
+async function loadPayoffDebts(userId: string) {
+  const accounts = await storage.getDebtAccounts(userId);
+  const promos = await storage.getPromoPeriods(accounts.map(account => account.id));
+  return toPayoffDebts(accounts, promos);
+}
+
+export function setupPlanningRoutes(app: Express) {
+  // Month-by-month payoff plan for all of the user's debts
+  app.get('/api/payoff-plan', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { strategy, monthlyBudget, order } = payoffPlanQuerySchema.parse(req.query);
+      const debts = await loadPayoffDebts(userId);
+
+      const totalMinimumPayments = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+      if (monthlyBudget !== undefined && monthlyBudget < totalMinimumPayments) {
+        return res.status(400).json({
+          message: 'Monthly budget must cover the minimum payments',
+          totalMinimumPayments,
+        });
+      }
+
+      const plan = simulatePayoff(debts, {
+        strategy,
+        monthlyBudget,
+        customOrder: order ? order.split(',').map(id => id.trim()) : [],
+      });
+
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      } else {
+        console.error('Error building payoff plan:', error);
+        res.status(500).json({ message: 'Failed to build payoff plan' });
+      }
+    }
+  });
+
+  // What-if comparison of up to three payment scenarios against the current trajectory
+  app.post('/api/payoff-plan/simulate', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const request = simulationRequestSchema.parse(req.body);
+      const pastMonths = pastLumpSumMonths(request);
+      if (pastMonths.length > 0) {
+        return res.status(400).json({ message: 'Lump sums must be dated this month or later', months: pastMonths });
+      }
+      const debts = await loadPayoffDebts(userId);
+
+      const totalMinimumPayments = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+      if (request.monthlyBudget !== undefined && request.monthlyBudget < totalMinimumPayments) {
+        return res.status(400).json({
+          message: 'Monthly budget must cover the minimum payments',
+          totalMinimumPayments,
+        });
+      }
+
+      res.json(compareScenarios(debts, request));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      } else {
+        console.error('Error simulating payoff scenarios:', error);
+        res.status(500).json({ message: 'Failed to simulate scenarios' });
+      }
+    }
+  });
+
+  // Full amortization schedule for an installment loan
+  app.get('/api/debt-accounts/:id/amortization', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { extraPrincipal } = amortizationQuerySchema.parse(req.query);
+      const account = await storage.getDebtAccount(req.params.id, userId);
+
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+
+      if (!INSTALLMENT_ACCOUNT_TYPES.includes(account.accountType)) {
+        return res.status(400).json({ message: 'Amortization is only available for installment loans' });
+      }
+
+      const [debt] = toPayoffDebts([account], await storage.getPromoPeriods([account.id]));
+      if (!debt) {
+        return res.status(400).json({ message: 'Account has no outstanding balance' });
+      }
+
+      if (debt.minimumPayment <= 0) {
+        return res.status(400).json({ message: 'Account has no monthly payment set' });
+      }
+
+      const options = { dueDay: account.dueDate };
+      const baseline = buildAmortizationSchedule(debt, options);
+      const schedule = extraPrincipal > 0
+        ? buildAmortizationSchedule(debt, { ...options, extraPrincipal })
+        : baseline;
+
+      if (!schedule) {
+        return res.status(400).json({ message: 'Monthly payment does not cover the interest on this loan' });
+      }
+
+      res.json({
+        accountId: account.id,
+        accountNickname: account.accountNickname,
+        accountType: account.accountType,
+        currentBalance: debt.balance,
+        interestRate: debt.interestRate,
+        ...schedule,
+        // Savings are measured against the regular payment on its own
+        interestSaved: baseline ? roundCents(baseline.totalInterest - schedule.totalInterest) : null,
+        paymentsSaved: baseline ? baseline.numberOfPayments - schedule.numberOfPayments : null,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      } else {
+        console.error('Error building amortization schedule:', error);
+        res.status(500).json({ message: 'Failed to build amortization schedule' });
+      }
+    }
+  });
+}
@@ -0,0 +1,78 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupSecurity, sanitizeMiddleware } from '../security';
+import { storage } from '../storage';
+import { setupProviderRoutes } from './providers';
+
+const OFX_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20240131120000<LANGUAGE>ENG
+<FI><ORG>Example Card Co<FID>1234</FI></SONRS></SIGNONMSGSRSV1>
+<CREDITCARDMSGSRSV1><CCSTMTTRNRS><TRNUID>1<STATUS><CODE>0<SEVERITY>INFO</STATUS>
+<CCSTMTRS><CURDEF>USD<CCACCTFROM><ACCTID>4111111111114321</CCACCTFROM>
+<LEDGERBAL><BALAMT>-1523.45<DTASOF>20240131120000</LEDGERBAL>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+let server: Server;
+let baseUrl: string;
+
+// The real app registers provider routes ahead of the /api sanitizer; it goes first here so uploads are checked against it too
+before(async () => {
+  mock.method(storage, 'getDebtAccounts', async () => []);
+
+  const app = express();
+  setupSecurity(app);
+  app.use('/api', sanitizeMiddleware);
+  app.use((req: any, _res, next) => {
+    req.session = { userId: 'user-1' };
+    next();
+  });
+  setupProviderRoutes(app);
+
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+const preview = (fileName: string, content: string) =>
+  fetch(`${baseUrl}/api/providers/file/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName, content }),
+  });
+
+test('an OFX statement survives the API sanitizer', async () => {
+  const response = await preview('statement.ofx', OFX_STATEMENT);
+  assert.equal(response.status, 200);
+
+  const body = await response.json();
+  assert.equal(body.format, 'ofx');
+  assert.deepEqual(body.errors, []);
+  assert.equal(body.accounts.length, 1);
+  assert.equal(body.accounts[0].institutionName, 'Example Card Co');
+  assert.equal(body.accounts[0].accountType, 'credit_card');
+  assert.equal(body.accounts[0].mask, '4321');
+  assert.equal(body.accounts[0].currentBalance, 1523.45);
+  assert.equal(body.accounts[0].action, 'create');
+});
+
+test('CSV cells are parsed as uploaded', async () => {
+  const response = await preview('accounts.csv', 'institution_name,account_name,current_balance\nBank <A>,Card,100.00\n');
+  assert.equal(response.status, 200);
+
+  const body = await response.json();
+  assert.equal(body.accounts.length, 1);
+  assert.equal(body.accounts[0].institutionName, 'Bank <A>');
+});
@@ -1,9 +1,49 @@
 import type { Express } from 'express';
+import { z } from 'zod';
 import { isAuthenticated } from '../auth';
-import { providerManager } from '../providers/manager';
-import { PlaidProvider } from '../providers/plaid';
+import { providerManager } from '../providers';
+import { storage } from '../storage';
+import { PlaidProvider, type PlaidWebhookEvent } from '../providers/plaid';
+import { verifyPlaidWebhook } from '../providers/plaid-webhook';
+import { verifyMethodWebhook } from '../providers/method-webhook';
+import { processWebhookEvent } from '../webhook-events';
+import { getWebhookHandler } from '../webhook-handlers';
+import { FileProvider } from '../providers/file';
+import { DemoProvider, simulatedNow } from '../providers/demo';
+import { CSV_FIELDS, REQUIRED_CSV_FIELDS } from '../providers/file-import';
+import { logSecurityEvent } from '../security';
 import { DataSource, DataMode } from '../providers/base';
 
+// Statements are sent as text; the JSON body limit caps the size
+const fileUploadSchema = z.object({
+  fileName: z.string().min(1),
+  content: z.string().min(1),
+  mapping: z.record(z.enum(CSV_FIELDS), z.string()).optional(),
+});
+
+// Statements are read from the raw request bytes: the API's XSS sanitizer would escape the
+// tags OFX is made of and rewrite markup-like CSV cells
+function parseFileUpload(req: any) {
+  const rawBody: Buffer | undefined = req.rawBody;
+  return fileUploadSchema.parse(rawBody ? JSON.parse(rawBody.toString('utf8')) : req.body);
+}
+
+const disconnectQuerySchema = z.object({
+  accounts: z.enum(['keep', 'hide', 'delete']).default('keep'),
+});
+
+const advanceClockSchema = z.object({
+  months: z.number().int().min(1).max(120),
+  connectionId: z.string().min(1).optional(), // Every demo connection of the user when omitted
+});
+
+const syncRunQuerySchema = z.object({
+  connectionId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  // Only the most recent run of each connection
+  latest: z.enum(['true', 'false']).default('false'),
+});
+
 export function setupProviderRoutes(app: Express) {
   // Get available providers
   app.get('/api/providers', isAuthenticated, async (req: any, res) => {
@@ -11,11 +51,8 @@ export function setupProviderRoutes(app: Express) {
       const providers = providerManager.getAvailableProviders();
       res.json({
         providers: providers.map(p => ({
-          source: p.source,
-          available: p.available,
-          name: getProviderDisplayName(p.source),
-          description: getProviderDescription(p.source),
-          supportsDemo: p.source === 'demo' || p.source === 'plaid' || p.source === 'method',
+          ...p,
+          supportsDemo: p.capabilities.demo,
         })),
       });
     } catch (error) {
@@ -29,13 +66,12 @@ export function setupProviderRoutes(app: Express) {
     try {
       const userId = req.session.userId!;
       const source = req.params.source as DataSource;
-      const { dataMode = 'live', redirectUrl, webhookUrl } = req.body;
+      const { dataMode = 'live', redirectUrl } = req.body;
       
       const result = await providerManager.connect(source, {
         userId,
         dataMode: dataMode as DataMode,
         redirectUrl,
-        webhookUrl,
       });
       
       if (!result.success) {
@@ -80,6 +116,109 @@ export function setupProviderRoutes(app: Express) {
     }
   });
   
+  // Plaid connections with their health, so broken logins can be repaired
+  app.get('/api/providers/plaid/connections', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const connections = await storage.getPlaidConnections(userId);
+      
+      res.json({
+        connections: connections.map(connection => ({
+          id: connection.id,
+          institutionName: connection.institutionName,
+          needsReauth: connection.needsReauth || false,
+          reauthReason: connection.reauthReason,
+          consentExpiresAt: connection.consentExpiresAt,
+          lastSynced: connection.lastSynced,
+        })),
+      });
+    } catch (error) {
+      console.error('Error getting Plaid connections:', error);
+      res.status(500).json({ message: 'Failed to get Plaid connections' });
+    }
+  });
+  
+  // Link token in update mode for an existing connection
+  app.post('/api/providers/plaid/connections/:connectionId/update-token', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const connection = await storage.getPlaidConnection(req.params.connectionId);
+      
+      if (!connection || connection.userId !== userId || !connection.isActive) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      
+      const plaidProvider = providerManager.getProvider('plaid') as PlaidProvider;
+      if (!plaidProvider || !plaidProvider.isConfigured()) {
+        return res.status(400).json({ message: 'Plaid provider not available' });
+      }
+      
+      const { redirectUrl } = req.body;
+      const token = await plaidProvider.createUpdateLinkToken(connection, { redirectUrl });
+      
+      res.json({ token });
+    } catch (error) {
+      console.error('Error creating Plaid update token:', error);
+      res.status(500).json({ message: 'Failed to create update token' });
+    }
+  });
+  
+  // Called after Link update mode succeeds; the access token stays the same
+  app.post('/api/providers/plaid/connections/:connectionId/reconnected', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const connection = await storage.updatePlaidConnection(req.params.connectionId, userId, {
+        needsReauth: false,
+        reauthReason: null,
+        consentExpiresAt: null,
+      });
+      
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      
+      const accountsCount = await providerManager.syncConnection(userId, connection.id);
+      
+      res.json({ success: true, accountsCount });
+    } catch (error) {
+      console.error('Error completing Plaid reconnect:', error);
+      res.status(500).json({ message: 'Failed to complete reconnect' });
+    }
+  });
+  
+  // Handle Plaid webhook, authenticated by the signed Plaid-Verification header
+  app.post('/api/providers/plaid/webhook', async (req: any, res) => {
+    try {
+      const rawBody: Buffer | undefined = req.rawBody;
+      if (!rawBody || !(await verifyPlaidWebhook(rawBody, req.get('Plaid-Verification')))) {
+        logSecurityEvent('PLAID_WEBHOOK_REJECTED', { ip: req.ip });
+        return res.status(401).json({ message: 'Invalid webhook signature' });
+      }
+      
+      const plaidProvider = providerManager.getProvider('plaid') as PlaidProvider;
+      if (!plaidProvider) {
+        return res.status(400).json({ message: 'Plaid provider not available' });
+      }
+      
+      // Parse the verified bytes rather than the sanitized body
+      const event: PlaidWebhookEvent = JSON.parse(rawBody.toString('utf8'));
+      const result = await plaidProvider.handleWebhook(event);
+      
+      // Acknowledge before syncing so Plaid doesn't time out and retry
+      res.json({ success: true });
+      
+      if (result.sync && result.connection) {
+        const { id, userId } = result.connection;
+        providerManager.syncConnection(userId, id, 'webhook').catch(error => {
+          console.error(`Failed to sync Plaid connection ${id} after webhook:`, error);
+        });
+      }
+    } catch (error) {
+      console.error('Error handling Plaid webhook:', error);
+      res.status(500).json({ message: 'Failed to handle webhook' });
+    }
+  });
+  
   // Create Method element token (for Opal/Connect)
   app.post('/api/providers/method/element-token', isAuthenticated, async (req: any, res) => {
     try {
@@ -100,18 +239,28 @@ export function setupProviderRoutes(app: Express) {
     }
   });
   
-  // Handle Method webhook
-  app.post('/api/providers/method/webhook', async (req, res) => {
+  // Handle Method webhook, authenticated by the auth_token Method sends in the Authorization header
+  app.post('/api/providers/method/webhook', async (req: any, res) => {
     try {
-      const methodProvider = providerManager.getProvider('method');
-      if (!methodProvider) {
+      const rawBody: Buffer | undefined = req.rawBody;
+      if (!rawBody || !verifyMethodWebhook(req.get('Authorization'))) {
+        logSecurityEvent('METHOD_WEBHOOK_REJECTED', { ip: req.ip });
+        return res.status(401).json({ message: 'Invalid webhook credentials' });
+      }
+      
+      const handler = getWebhookHandler('method');
+      if (!handler) {
         return res.status(400).json({ message: 'Method provider not available' });
       }
       
-      // Method provider will handle the webhook
-      await (methodProvider as any).handleWebhook(req.body);
+      // Retried deliveries of a processed event are acknowledged without running again
+      const outcome = await processWebhookEvent('method', rawBody, handler);
+      if (outcome.status === 'failed') {
+        // A non-2xx response makes Method retry the delivery
+        return res.status(500).json({ message: 'Failed to handle webhook' });
+      }
       
-      res.json({ success: true });
+      res.json({ success: true, duplicate: outcome.status === 'duplicate' });
     } catch (error) {
       console.error('Error handling Method webhook:', error);
       res.status(500).json({ message: 'Failed to handle webhook' });
@@ -128,6 +277,7 @@ export function setupProviderRoutes(app: Express) {
         success: true,
         synced: result.synced,
         failed: result.failed,
+        errors: result.errors,
       });
     } catch (error) {
       console.error('Error syncing accounts:', error);
@@ -135,6 +285,27 @@ export function setupProviderRoutes(app: Express) {
     }
   });
   
+  // Sync history, newest first
+  app.get('/api/sync-runs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { connectionId, limit, latest } = syncRunQuerySchema.parse(req.query);
+      
+      const runs = latest === 'true'
+        ? (await storage.getLatestSyncRuns(userId)).filter(run => !connectionId || run.connectionId === connectionId)
+        : await storage.getSyncRuns(userId, connectionId, limit);
+      
+      res.json(runs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      } else {
+        console.error('Error getting sync runs:', error);
+        res.status(500).json({ message: 'Failed to get sync runs' });
+      }
+    }
+  });
+  
   // Sync specific account
   app.post('/api/providers/sync/:accountId', isAuthenticated, async (req: any, res) => {
     try {
@@ -177,6 +348,109 @@ export function setupProviderRoutes(app: Express) {
     }
   });
   
+  // Parse an uploaded CSV or OFX/QFX statement without saving anything
+  app.post('/api/providers/file/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { fileName, content, mapping } = parseFileUpload(req);
+      
+      const fileProvider = providerManager.getProvider('file') as FileProvider;
+      const parsed = fileProvider.parseFile(fileName, content, mapping);
+      
+      // Show which rows will update an account imported earlier
+      const existingAccounts = await storage.getDebtAccounts(userId);
+      const accounts = parsed.accounts.map(({ raw, ...account }) => {
+        const existing = existingAccounts.find(a => a.fileAccountId === account.providerId);
+        return { ...account, action: existing ? 'update' : 'create', existingAccountId: existing?.id ?? null };
+      });
+      
+      res.json({
+        format: parsed.format,
+        headers: parsed.headers,
+        sampleRows: parsed.sampleRows,
+        mapping: parsed.mapping,
+        fields: CSV_FIELDS,
+        requiredFields: REQUIRED_CSV_FIELDS,
+        accounts,
+        errors: parsed.errors,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      } else {
+        console.error('Error previewing statement file:', error);
+        res.status(500).json({ message: 'Failed to read statement file' });
+      }
+    }
+  });
+  
+  // Import the accounts from a statement, updating any imported before
+  app.post('/api/providers/file/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { fileName, content, mapping } = parseFileUpload(req);
+      
+      const result = await providerManager.importFile(userId, fileName, content, mapping);
+      if (result.created + result.updated === 0) {
+        return res.status(400).json({ message: 'No accounts could be imported from this file', errors: result.errors });
+      }
+      
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      } else {
+        console.error('Error importing statement file:', error);
+        res.status(500).json({ message: 'Failed to import statement file' });
+      }
+    }
+  });
+  
+  // Demo institutions the user has added
+  app.get('/api/providers/demo/connections', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const connections = await storage.getDemoConnections(userId);
+      res.json({
+        connections: connections.map(connection => ({ ...connection, simulatedDate: simulatedNow(connection) })),
+      });
+    } catch (error) {
+      console.error('Error getting demo connections:', error);
+      res.status(500).json({ message: 'Failed to get demo connections' });
+    }
+  });
+  
+  // Jump the demo simulation forward, then resync so balances and transactions catch up
+  app.post('/api/providers/demo/advance', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { months, connectionId } = advanceClockSchema.parse(req.body);
+      const demoProvider = providerManager.getProvider('demo') as DemoProvider;
+      
+      const connections = (await storage.getDemoConnections(userId))
+        .filter(connection => connection.isActive && (!connectionId || connection.id === connectionId));
+      if (connections.length === 0) {
+        return res.status(404).json({ message: 'Demo connection not found' });
+      }
+      
+      let simulatedDate: Date | null = null;
+      let accountsCount = 0;
+      for (const connection of connections) {
+        simulatedDate = await demoProvider.advanceClock(connection.id, userId, months);
+        accountsCount += await providerManager.syncConnection(userId, connection.id);
+      }
+      
+      res.json({ success: true, simulatedDate, accountsCount });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      } else {
+        console.error('Error advancing demo clock:', error);
+        res.status(500).json({ message: 'Failed to advance demo clock' });
+      }
+    }
+  });
+  
   // Get demo institutions
   app.get('/api/providers/demo/institutions', async (req, res) => {
     try {
@@ -191,44 +465,23 @@ export function setupProviderRoutes(app: Express) {
   // Disconnect from provider
   app.delete('/api/providers/:source/:connectionId', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.session.userId!;
       const { source, connectionId } = req.params;
+      const { accounts } = disconnectQuerySchema.parse(req.query);
       
-      const success = await providerManager.disconnect(source as DataSource, connectionId);
+      const result = await providerManager.disconnect(userId, source as DataSource, connectionId, accounts);
       
-      if (!success) {
+      if (!result) {
         return res.status(404).json({ message: 'Connection not found' });
       }
       
-      res.json({ success: true });
+      res.json({ success: true, accountAction: accounts, accountsAffected: result.accounts });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      }
       console.error('Error disconnecting from provider:', error);
       res.status(500).json({ message: 'Failed to disconnect' });
     }
   });
 }
-
-function getProviderDisplayName(source: DataSource): string {
-  switch (source) {
-    case 'plaid':
-      return 'Plaid';
-    case 'method':
-      return 'Method';
-    case 'demo':
-      return 'Demo Data';
-    default:
-      return source;
-  }
-}
-
-function getProviderDescription(source: DataSource): string {
-  switch (source) {
-    case 'plaid':
-      return 'Connect your bank accounts and credit cards';
-    case 'method':
-      return 'Connect your loans and liabilities';
-    case 'demo':
-      return 'Try with realistic demo data';
-    default:
-      return '';
-  }
-}
\ No newline at end of file
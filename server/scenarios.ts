@@ -0,0 +1,137 @@
+import { differenceInCalendarMonths, parse } from 'date-fns';
+import { z } from 'zod';
+import { simulatePayoff, roundCents, type PayoffDebt, type PayoffPlan, type PayoffStrategy, type LumpSum } from './payoff';
+
+export const MAX_SCENARIOS = 3;
+
+const adjustmentSchema = z.discriminatedUnion('type', [
+  // "+$200/month to account X"
+  z.object({
+    type: z.literal('extra_monthly'),
+    accountId: z.string(),
+    amount: z.number().positive(),
+  }),
+  // "One-time $5,000 lump sum in March"
+  z.object({
+    type: z.literal('lump_sum'),
+    amount: z.number().positive(),
+    month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM'),
+    accountId: z.string().optional(),
+  }),
+  // "Stop charging card Y"
+  z.object({
+    type: z.literal('stop_charges'),
+    accountId: z.string(),
+  }),
+]);
+
+export const simulationRequestSchema = z.object({
+  strategy: z.enum(['avalanche', 'snowball', 'custom']).default('avalanche'),
+  order: z.array(z.string()).default([]), // Account IDs in priority order for the custom strategy
+  monthlyBudget: z.number().positive().optional(),
+  // What the user currently puts on each card every month; the baseline keeps charging it
+  currentCharges: z.array(z.object({
+    accountId: z.string(),
+    amount: z.number().min(0),
+  })).default([]),
+  scenarios: z.array(z.object({
+    name: z.string().min(1).max(100),
+    adjustments: z.array(adjustmentSchema).min(1),
+  })).min(1).max(MAX_SCENARIOS),
+});
+
+export type ScenarioAdjustment = z.infer<typeof adjustmentSchema>;
+export type SimulationRequest = z.infer<typeof simulationRequestSchema>;
+
+export interface ScenarioResult extends PayoffPlan {
+  name: string;
+  interestSaved: number;
+  monthsSaved: number | null; // null when either projection never reaches zero
+}
+
+// Calendar months from the start date to a YYYY-MM month; negative for past months
+function monthsFromStart(month: string, startDate: Date): number {
+  return differenceInCalendarMonths(parse(month, 'yyyy-MM', startDate), startDate);
+}
+
+// Turn a YYYY-MM month into the simulator's month index. Month 1 is next month, which is also
+// where lump sums dated this month land.
+function toSimulationMonth(month: string, startDate: Date): number {
+  return Math.max(1, monthsFromStart(month, startDate));
+}
+
+// Lump sums dated before the current month, which the simulation can't apply
+export function pastLumpSumMonths(request: SimulationRequest, startDate: Date = new Date()): string[] {
+  return request.scenarios
+    .flatMap(scenario => scenario.adjustments)
+    .flatMap(adjustment => adjustment.type === 'lump_sum' && monthsFromStart(adjustment.month, startDate) < 0
+      ? [adjustment.month]
+      : []);
+}
+
+function applyAdjustments(debts: PayoffDebt[], adjustments: ScenarioAdjustment[], startDate: Date) {
+  const adjusted = debts.map(debt => ({ ...debt }));
+  const lumpSums: LumpSum[] = [];
+
+  for (const adjustment of adjustments) {
+    switch (adjustment.type) {
+      case 'extra_monthly': {
+        const debt = adjusted.find(d => d.id === adjustment.accountId);
+        if (debt) debt.extraPayment = (debt.extraPayment || 0) + adjustment.amount;
+        break;
+      }
+      case 'lump_sum':
+        lumpSums.push({
+          month: toSimulationMonth(adjustment.month, startDate),
+          amount: adjustment.amount,
+          accountId: adjustment.accountId,
+        });
+        break;
+      case 'stop_charges': {
+        const debt = adjusted.find(d => d.id === adjustment.accountId);
+        if (debt) debt.monthlyCharges = 0;
+        break;
+      }
+    }
+  }
+
+  return { debts: adjusted, lumpSums };
+}
+
+// Project each scenario against a baseline that keeps today's payments and spending
+export function compareScenarios(debts: PayoffDebt[], request: SimulationRequest, startDate: Date = new Date()) {
+  const strategy: PayoffStrategy = request.strategy;
+  const baselineDebts = debts.map(debt => ({
+    ...debt,
+    monthlyCharges: request.currentCharges.find(c => c.accountId === debt.id)?.amount || 0,
+  }));
+
+  const baseline = simulatePayoff(baselineDebts, {
+    strategy,
+    monthlyBudget: request.monthlyBudget,
+    customOrder: request.order,
+    startDate,
+  });
+
+  const scenarios: ScenarioResult[] = request.scenarios.map(scenario => {
+    const { debts: scenarioDebts, lumpSums } = applyAdjustments(baselineDebts, scenario.adjustments, startDate);
+    const plan = simulatePayoff(scenarioDebts, {
+      strategy,
+      monthlyBudget: request.monthlyBudget,
+      customOrder: request.order,
+      lumpSums,
+      startDate,
+    });
+
+    return {
+      name: scenario.name,
+      ...plan,
+      interestSaved: roundCents(baseline.totalInterest - plan.totalInterest),
+      monthsSaved: baseline.monthsToDebtFree !== null && plan.monthsToDebtFree !== null
+        ? baseline.monthsToDebtFree - plan.monthsToDebtFree
+        : null,
+    };
+  });
+
+  return { baseline, scenarios };
+}
@@ -2,22 +2,78 @@ import express from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
-import { config, getAllowedOrigins, securityConfig } from './config';
-import CryptoJS from 'crypto-js';
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto';
+import { config, getAllowedOrigins, getPreviousEncryptionKeys, securityConfig } from './config';
 import xss from 'xss';
 import type { Express, Request, Response, NextFunction } from 'express';
 
-// Encryption utilities for sensitive data
+interface EncryptionKey {
+  id: string;
+  cipherKey: Buffer;
+  hashKey: Buffer;
+}
+
+function deriveKey(id: string, secret: string): EncryptionKey {
+  const derive = (purpose: string) => Buffer.from(hkdfSync('sha256', secret, '', `xelia:${purpose}`, 32));
+  return { id, cipherKey: derive('encryption'), hashKey: derive('lookup-hash') };
+}
+
+// Encryption utilities for sensitive data.
+// Values are AES-256-GCM, stored as "enc:<key id>:<iv>:<auth tag>:<ciphertext>" (base64url parts).
+// The key ID records which ENCRYPTION_KEY sealed a value, so keys listed in ENCRYPTION_PREVIOUS_KEYS
+// keep decrypting until `npm run secrets:reencrypt` has moved everything to the current key.
 export class Encryption {
-  private static key = config.ENCRYPTION_KEY || config.SESSION_SECRET;
+  private static readonly prefix = 'enc';
+  private static current = deriveKey(config.ENCRYPTION_KEY_ID, config.ENCRYPTION_KEY || config.SESSION_SECRET);
+  private static keys = new Map<string, EncryptionKey>([
+    ...Array.from(getPreviousEncryptionKeys(), ([id, secret]) => [id, deriveKey(id, secret)] as const),
+    [Encryption.current.id, Encryption.current],
+  ]);
 
   static encrypt(text: string): string {
-    return CryptoJS.AES.encrypt(text, this.key).toString();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.current.cipherKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    return [this.prefix, this.current.id, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+      .join(':');
   }
 
+  // Values without the prefix were stored before encryption and are returned unchanged
   static decrypt(encryptedText: string): string {
-    const bytes = CryptoJS.AES.decrypt(encryptedText, this.key);
-    return bytes.toString(CryptoJS.enc.Utf8);
+    if (!this.isEncrypted(encryptedText)) return encryptedText;
+
+    const [, keyId, iv, tag, ciphertext] = encryptedText.split(':');
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`No encryption key with ID "${keyId}"; add it to ENCRYPTION_PREVIOUS_KEYS`);
+    }
+    const decipher = createDecipheriv('aes-256-gcm', key.cipherKey, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  }
+
+  static isEncrypted(value: string): boolean {
+    return value.startsWith(`${this.prefix}:`) && value.split(':').length === 5;
+  }
+
+  // True for plaintext and for values sealed with a retired key
+  static needsReencryption(value: string): boolean {
+    return !this.isEncrypted(value) || value.split(':')[1] !== this.current.id;
+  }
+
+  // Keyed hash for equality lookups on encrypted columns (the ciphertext differs every time)
+  static lookupHash(value: string): string {
+    return this.hmac(this.current, value);
+  }
+
+  // The hash under every known key, so lookups still match rows not yet re-encrypted
+  static lookupHashes(value: string): string[] {
+    return Array.from(this.keys.values(), key => this.hmac(key, value));
+  }
+
+  private static hmac(key: EncryptionKey, value: string): string {
+    return createHmac('sha256', key.hashKey).update(value).digest('hex');
   }
 }
 
@@ -65,8 +121,13 @@ export function setupSecurity(app: Express) {
   
   app.use(cors(corsOptions));
 
-  // Request size limits
-  app.use(express.json({ limit: '10mb' }));
+  // Request size limits. The raw body is kept for webhook signature checks.
+  app.use(express.json({
+    limit: '10mb',
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  }));
   app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 }
 
@@ -3,6 +3,17 @@ import {
   debtAccounts,
   plaidConnections,
   methodConnections,
+  demoConnections,
+  fileConnections,
+  webhookEvents,
+  duplicateDismissals,
+  syncJobs,
+  syncRuns,
+  balanceSnapshots,
+  payments,
+  transactions,
+  aprBuckets,
+  promoPeriods,
   type User,
   type UpsertUser,
   type DebtAccount,
@@ -12,9 +23,45 @@ import {
   type InsertPlaidConnection,
   type MethodConnection,
   type InsertMethodConnection,
+  type DemoConnection,
+  type InsertDemoConnection,
+  type FileConnection,
+  type InsertFileConnection,
+  type WebhookEvent,
+  type InsertWebhookEvent,
+  type DuplicateDismissal,
+  type SyncJob,
+  type InsertSyncJob,
+  type SyncRun,
+  type InsertSyncRun,
+  type BalanceSnapshot,
+  type AprBucket,
+  type InsertAprBucket,
+  type PromoPeriod,
+  type InsertPromoPeriod,
+  type Payment,
+  type InsertPayment,
+  type UpdatePayment,
+  type Transaction,
+  type InsertTransaction,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { Encryption } from "./security";
+import { eq, and, or, desc, gte, lt, lte, asc, inArray, isNull, sql } from "drizzle-orm";
+
+// Plaid access tokens are encrypted at rest; callers only ever see plaintext
+function sealPlaidConnection<T extends { accessToken?: string }>(values: T): T & { accessTokenHash?: string } {
+  if (values.accessToken === undefined) return values;
+  return {
+    ...values,
+    accessToken: Encryption.encrypt(values.accessToken),
+    accessTokenHash: Encryption.lookupHash(values.accessToken),
+  };
+}
+
+function openPlaidConnection<T extends PlaidConnection | undefined>(connection: T): T {
+  return connection && { ...connection, accessToken: Encryption.decrypt(connection.accessToken) };
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -27,6 +74,8 @@ export interface IStorage {
   createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User>;
   updateUserSecurity(id: string, updates: { failedLoginAttempts?: number; lockedUntil?: Date | null }): Promise<void>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByCalendarTokenHash(tokenHash: string): Promise<User | undefined>;
+  setCalendarTokenHash(id: string, tokenHash: string): Promise<void>;
   
   // Debt account operations
   getDebtAccounts(userId: string): Promise<DebtAccount[]>;
@@ -34,18 +83,91 @@ export interface IStorage {
   createDebtAccount(account: InsertDebtAccount & { userId: string }): Promise<DebtAccount>;
   updateDebtAccount(id: string, userId: string, updates: UpdateDebtAccount): Promise<DebtAccount | undefined>;
   deleteDebtAccount(id: string, userId: string): Promise<boolean>;
+  mergeDebtAccounts(canonicalId: string, duplicateId: string, userId: string): Promise<DebtAccount | undefined>;
+  getDebtAccountsByConnection(connectionId: string, userId: string): Promise<DebtAccount[]>;
+  updateDebtAccountsByConnection(connectionId: string, userId: string, updates: UpdateDebtAccount): Promise<number>;
+  deleteDebtAccountsByConnection(connectionId: string, userId: string): Promise<number>;
+  
+  // Background sync job operations
+  getUserIdsWithActiveConnections(): Promise<string[]>;
+  ensureSyncJob(job: InsertSyncJob): Promise<void>;
+  claimDueSyncJobs(workerId: string, limit: number, staleBefore: Date): Promise<SyncJob[]>;
+  finishSyncJob(id: string, updates: Partial<SyncJob>): Promise<void>;
+  deleteSyncJob(id: string): Promise<void>;
+  
+  // Sync run history operations
+  createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
+  finishSyncRun(id: string, updates: Partial<SyncRun>): Promise<void>;
+  getSyncRuns(userId: string, connectionId?: string, limit?: number): Promise<SyncRun[]>;
+  getLatestSyncRuns(userId: string): Promise<SyncRun[]>;
+  
+  // Duplicate detection operations
+  getDuplicateDismissals(userId: string): Promise<DuplicateDismissal[]>;
+  createDuplicateDismissal(userId: string, accountId: string, otherAccountId: string): Promise<void>;
+  
+  // Balance history operations
+  createBalanceSnapshot(account: DebtAccount, source: string): Promise<BalanceSnapshot>;
+  getBalanceSnapshots(accountId: string, userId: string, range?: { from?: Date; to?: Date }): Promise<BalanceSnapshot[]>;
+  getBalanceSnapshotsForAccounts(accountIds: string[], userId: string, range?: { from?: Date; to?: Date }): Promise<BalanceSnapshot[]>;
+  
+  // APR bucket operations
+  getAprBuckets(accountIds: string[]): Promise<AprBucket[]>;
+  replaceAprBuckets(accountId: string, buckets: Omit<InsertAprBucket, 'id' | 'accountId' | 'updatedAt'>[]): Promise<void>;
+  
+  // Promotional rate operations
+  getPromoPeriods(accountIds: string[]): Promise<PromoPeriod[]>;
+  createPromoPeriod(promo: InsertPromoPeriod & { accountId: string; userId: string }): Promise<PromoPeriod>;
+  deletePromoPeriod(id: string, userId: string): Promise<boolean>;
+  
+  // Payment ledger operations
+  getPayments(userId: string, filters?: { accountId?: string; from?: Date; to?: Date }): Promise<Payment[]>;
+  getPayment(id: string, userId: string): Promise<Payment | undefined>;
+  createPayment(payment: InsertPayment & { userId: string }): Promise<Payment>;
+  updatePayment(id: string, userId: string, updates: UpdatePayment): Promise<Payment | undefined>;
+  deletePayment(id: string, userId: string): Promise<boolean>;
+  
+  // Transaction operations
+  getTransactions(accountId: string, userId: string, filters?: { from?: Date; to?: Date; limit?: number; offset?: number }): Promise<{ transactions: Transaction[]; total: number }>;
+  upsertTransactions(rows: InsertTransaction[]): Promise<void>;
+  deleteTransactions(userId: string, provider: string, providerTransactionIds: string[]): Promise<void>;
+  getLatestTransactionDate(connectionId: string): Promise<Date | undefined>;
   
   // Plaid connection operations
-  getPlaidConnections(userId: string): Promise<PlaidConnection[]>;
+  getPlaidConnections(userId: string, includePaused?: boolean): Promise<PlaidConnection[]>;
   createPlaidConnection(connection: InsertPlaidConnection & { userId: string }): Promise<PlaidConnection>;
   updatePlaidConnection(id: string, userId: string, updates: Partial<PlaidConnection>): Promise<PlaidConnection | undefined>;
+  deletePlaidConnection(id: string, userId: string): Promise<boolean>;
   getPlaidConnectionByToken(accessToken: string): Promise<PlaidConnection | undefined>;
+  getPlaidConnectionByItemId(itemId: string): Promise<PlaidConnection | undefined>;
   
   // Method connection operations
-  getMethodConnections(userId: string): Promise<MethodConnection[]>;
+  getMethodConnections(userId: string, includePaused?: boolean): Promise<MethodConnection[]>;
   getMethodConnectionByEntity(entityId: string): Promise<MethodConnection | undefined>;
   createMethodConnection(connection: InsertMethodConnection & { userId: string }): Promise<MethodConnection>;
   updateMethodConnection(id: string, userId: string, updates: Partial<MethodConnection>): Promise<MethodConnection | undefined>;
+  deleteMethodConnection(id: string, userId: string): Promise<boolean>;
+  
+  // Demo connection operations
+  getDemoConnections(userId: string, includePaused?: boolean): Promise<DemoConnection[]>;
+  getDemoConnection(id: string): Promise<DemoConnection | undefined>;
+  createDemoConnection(connection: InsertDemoConnection & { userId: string }): Promise<DemoConnection>;
+  updateDemoConnection(id: string, userId: string, updates: Partial<DemoConnection>): Promise<DemoConnection | undefined>;
+  deleteDemoConnection(id: string, userId: string): Promise<boolean>;
+  
+  // File import connection operations
+  getFileConnections(userId: string, includePaused?: boolean): Promise<FileConnection[]>;
+  getFileConnection(id: string): Promise<FileConnection | undefined>;
+  createFileConnection(connection: InsertFileConnection & { userId: string }): Promise<FileConnection>;
+  updateFileConnection(id: string, userId: string, updates: Partial<FileConnection>): Promise<FileConnection | undefined>;
+  deleteFileConnection(id: string, userId: string): Promise<boolean>;
+  
+  // Webhook event operations
+  getWebhookEvent(id: string): Promise<WebhookEvent | undefined>;
+  getWebhookEventByEventId(provider: string, eventId: string): Promise<WebhookEvent | undefined>;
+  getWebhookEvents(status?: string): Promise<WebhookEvent[]>;
+  createWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined>;
+  claimWebhookEvent(id: string, staleBefore: Date): Promise<WebhookEvent | undefined>;
+  updateWebhookEvent(id: string, updates: Partial<WebhookEvent>): Promise<WebhookEvent | undefined>;
   
   // Additional helper methods
   getPlaidConnection(id: string): Promise<PlaidConnection | undefined>;
@@ -106,6 +228,18 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByCalendarTokenHash(tokenHash: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.calendarTokenHash, tokenHash));
+    return user;
+  }
+
+  async setCalendarTokenHash(id: string, tokenHash: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ calendarTokenHash: tokenHash, updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
   // Debt account operations
   async getDebtAccounts(userId: string): Promise<DebtAccount[]> {
     return await db
@@ -147,45 +281,459 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
-  // Plaid connection operations
-  async getPlaidConnections(userId: string): Promise<PlaidConnection[]> {
+  // Accounts a connection created, including hidden ones
+  async getDebtAccountsByConnection(connectionId: string, userId: string): Promise<DebtAccount[]> {
+    return await db
+      .select()
+      .from(debtAccounts)
+      .where(and(eq(debtAccounts.connectionId, connectionId), eq(debtAccounts.userId, userId)));
+  }
+
+  async updateDebtAccountsByConnection(connectionId: string, userId: string, updates: UpdateDebtAccount): Promise<number> {
+    const result = await db
+      .update(debtAccounts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(debtAccounts.connectionId, connectionId), eq(debtAccounts.userId, userId)));
+    return result.rowCount ?? 0;
+  }
+
+  async deleteDebtAccountsByConnection(connectionId: string, userId: string): Promise<number> {
+    const result = await db
+      .delete(debtAccounts)
+      .where(and(eq(debtAccounts.connectionId, connectionId), eq(debtAccounts.userId, userId)));
+    return result.rowCount ?? 0;
+  }
+
+  // Fold a duplicate into the canonical account: provider links, history, payments and promos
+  // move over and the duplicate row is deleted
+  async mergeDebtAccounts(canonicalId: string, duplicateId: string, userId: string): Promise<DebtAccount | undefined> {
+    return await db.transaction(async (tx) => {
+      const [canonical] = await tx
+        .select()
+        .from(debtAccounts)
+        .where(and(eq(debtAccounts.id, canonicalId), eq(debtAccounts.userId, userId)));
+      const [duplicate] = await tx
+        .select()
+        .from(debtAccounts)
+        .where(and(eq(debtAccounts.id, duplicateId), eq(debtAccounts.userId, userId)));
+      if (!canonical || !duplicate) return undefined;
+
+      // The provider of a shared providerAccountId moves with it
+      const providerLink = canonical.providerAccountId ? canonical : duplicate;
+      // A manual account that turns out to be linked elsewhere becomes a synced account
+      const adoptSource = (canonical.syncSource || 'manual') === 'manual' && (duplicate.syncSource || 'manual') !== 'manual';
+
+      const [merged] = await tx
+        .update(debtAccounts)
+        .set({
+          plaidAccountId: canonical.plaidAccountId ?? duplicate.plaidAccountId,
+          methodAccountId: canonical.methodAccountId ?? duplicate.methodAccountId,
+          fileAccountId: canonical.fileAccountId ?? duplicate.fileAccountId,
+          providerAccountId: providerLink.providerAccountId,
+          providerAccountSource: providerLink.providerAccountSource,
+          mask: canonical.mask ?? duplicate.mask,
+          ...(adoptSource && {
+            syncSource: duplicate.syncSource,
+            connectionId: duplicate.connectionId,
+            isManual: false,
+            lastSynced: duplicate.lastSynced,
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(debtAccounts.id, canonical.id))
+        .returning();
+
+      await tx.update(balanceSnapshots).set({ accountId: canonical.id }).where(eq(balanceSnapshots.accountId, duplicate.id));
+      await tx.update(payments).set({ accountId: canonical.id }).where(eq(payments.accountId, duplicate.id));
+      await tx.update(transactions).set({ accountId: canonical.id }).where(eq(transactions.accountId, duplicate.id));
+      await tx.update(promoPeriods).set({ accountId: canonical.id }).where(eq(promoPeriods.accountId, duplicate.id));
+
+      // Keep the canonical account's APR buckets when it has any
+      const [bucket] = await tx.select().from(aprBuckets).where(eq(aprBuckets.accountId, canonical.id)).limit(1);
+      if (!bucket) {
+        await tx.update(aprBuckets).set({ accountId: canonical.id }).where(eq(aprBuckets.accountId, duplicate.id));
+      }
+
+      await tx.delete(debtAccounts).where(eq(debtAccounts.id, duplicate.id));
+      return merged;
+    });
+  }
+
+  // Background sync job operations
+  async getUserIdsWithActiveConnections(): Promise<string[]> {
+    // union removes the duplicates
+    const rows = await db
+      .select({ userId: plaidConnections.userId }).from(plaidConnections).where(eq(plaidConnections.isActive, true))
+      .union(db.select({ userId: methodConnections.userId }).from(methodConnections).where(eq(methodConnections.isActive, true)))
+      .union(db.select({ userId: demoConnections.userId }).from(demoConnections).where(eq(demoConnections.isActive, true)))
+      .union(db.select({ userId: fileConnections.userId }).from(fileConnections).where(eq(fileConnections.isActive, true)));
+    return rows.map(row => row.userId);
+  }
+
+  async ensureSyncJob(job: InsertSyncJob): Promise<void> {
+    await db
+      .insert(syncJobs)
+      .values(job)
+      .onConflictDoNothing({ target: [syncJobs.provider, syncJobs.connectionId] });
+  }
+
+  // Lock due jobs for this worker. Jobs still marked running after staleBefore belonged to a
+  // worker that died and are taken over.
+  async claimDueSyncJobs(workerId: string, limit: number, staleBefore: Date): Promise<SyncJob[]> {
+    const now = new Date();
+    return await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: syncJobs.id })
+        .from(syncJobs)
+        .where(and(
+          lte(syncJobs.nextRunAt, now),
+          or(eq(syncJobs.status, 'idle'), lt(syncJobs.lockedAt, staleBefore)),
+        ))
+        .orderBy(asc(syncJobs.nextRunAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return await tx
+        .update(syncJobs)
+        .set({ status: 'running', lockedBy: workerId, lockedAt: now })
+        .where(inArray(syncJobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async finishSyncJob(id: string, updates: Partial<SyncJob>): Promise<void> {
+    await db
+      .update(syncJobs)
+      .set({ ...updates, status: 'idle', lockedBy: null, lockedAt: null })
+      .where(eq(syncJobs.id, id));
+  }
+
+  async deleteSyncJob(id: string): Promise<void> {
+    await db.delete(syncJobs).where(eq(syncJobs.id, id));
+  }
+
+  // Sync run history operations
+  async createSyncRun(run: InsertSyncRun): Promise<SyncRun> {
+    const [created] = await db.insert(syncRuns).values(run).returning();
+    return created;
+  }
+
+  async finishSyncRun(id: string, updates: Partial<SyncRun>): Promise<void> {
+    await db
+      .update(syncRuns)
+      .set({ ...updates, finishedAt: new Date() })
+      .where(eq(syncRuns.id, id));
+  }
+
+  async getSyncRuns(userId: string, connectionId?: string, limit: number = 50): Promise<SyncRun[]> {
     return await db
+      .select()
+      .from(syncRuns)
+      .where(connectionId
+        ? and(eq(syncRuns.userId, userId), eq(syncRuns.connectionId, connectionId))
+        : eq(syncRuns.userId, userId))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(limit);
+  }
+
+  // The most recent run of each connection
+  async getLatestSyncRuns(userId: string): Promise<SyncRun[]> {
+    return await db
+      .selectDistinctOn([syncRuns.connectionId])
+      .from(syncRuns)
+      .where(eq(syncRuns.userId, userId))
+      .orderBy(syncRuns.connectionId, desc(syncRuns.startedAt));
+  }
+
+  // Duplicate detection operations
+  async getDuplicateDismissals(userId: string): Promise<DuplicateDismissal[]> {
+    return await db
+      .select()
+      .from(duplicateDismissals)
+      .where(eq(duplicateDismissals.userId, userId));
+  }
+
+  async createDuplicateDismissal(userId: string, accountId: string, otherAccountId: string): Promise<void> {
+    // Store each pair in one order so the unique index catches repeats
+    const [first, second] = [accountId, otherAccountId].sort();
+    await db
+      .insert(duplicateDismissals)
+      .values({ userId, accountId: first, otherAccountId: second })
+      .onConflictDoNothing();
+  }
+
+  // Balance history operations
+  async createBalanceSnapshot(account: DebtAccount, source: string): Promise<BalanceSnapshot> {
+    const [snapshot] = await db
+      .insert(balanceSnapshots)
+      .values({
+        accountId: account.id,
+        userId: account.userId,
+        balance: account.currentBalance,
+        interestRate: account.interestRate,
+        minimumPayment: account.minimumPayment,
+        creditLimit: account.creditLimit,
+        source,
+      })
+      .returning();
+    return snapshot;
+  }
+
+  async getBalanceSnapshots(accountId: string, userId: string, range: { from?: Date; to?: Date } = {}): Promise<BalanceSnapshot[]> {
+    const conditions = [eq(balanceSnapshots.accountId, accountId), eq(balanceSnapshots.userId, userId)];
+    if (range.from) conditions.push(gte(balanceSnapshots.recordedAt, range.from));
+    if (range.to) conditions.push(lte(balanceSnapshots.recordedAt, range.to));
+
+    return await db
+      .select()
+      .from(balanceSnapshots)
+      .where(and(...conditions))
+      .orderBy(asc(balanceSnapshots.recordedAt));
+  }
+
+  async getBalanceSnapshotsForAccounts(accountIds: string[], userId: string, range: { from?: Date; to?: Date } = {}): Promise<BalanceSnapshot[]> {
+    if (accountIds.length === 0) return [];
+    const conditions = [inArray(balanceSnapshots.accountId, accountIds), eq(balanceSnapshots.userId, userId)];
+    if (range.from) conditions.push(gte(balanceSnapshots.recordedAt, range.from));
+    if (range.to) conditions.push(lte(balanceSnapshots.recordedAt, range.to));
+
+    return await db
+      .select()
+      .from(balanceSnapshots)
+      .where(and(...conditions))
+      .orderBy(asc(balanceSnapshots.recordedAt));
+  }
+
+  // APR bucket operations
+  async getAprBuckets(accountIds: string[]): Promise<AprBucket[]> {
+    if (accountIds.length === 0) return [];
+    return await db
+      .select()
+      .from(aprBuckets)
+      .where(inArray(aprBuckets.accountId, accountIds));
+  }
+
+  async replaceAprBuckets(accountId: string, buckets: Omit<InsertAprBucket, 'id' | 'accountId' | 'updatedAt'>[]): Promise<void> {
+    // Providers report the full set on every sync, so swap the old rows out wholesale
+    await db.transaction(async (tx) => {
+      await tx.delete(aprBuckets).where(eq(aprBuckets.accountId, accountId));
+      if (buckets.length > 0) {
+        await tx.insert(aprBuckets).values(buckets.map(bucket => ({ ...bucket, accountId })));
+      }
+    });
+  }
+
+  // Promotional rate operations
+  async getPromoPeriods(accountIds: string[]): Promise<PromoPeriod[]> {
+    if (accountIds.length === 0) return [];
+    return await db
+      .select()
+      .from(promoPeriods)
+      .where(inArray(promoPeriods.accountId, accountIds))
+      .orderBy(asc(promoPeriods.endDate));
+  }
+
+  async createPromoPeriod(promoData: InsertPromoPeriod & { accountId: string; userId: string }): Promise<PromoPeriod> {
+    const [promo] = await db
+      .insert(promoPeriods)
+      .values(promoData)
+      .returning();
+    return promo;
+  }
+
+  async deletePromoPeriod(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(promoPeriods)
+      .where(and(eq(promoPeriods.id, id), eq(promoPeriods.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Payment ledger operations
+  async getPayments(userId: string, filters: { accountId?: string; from?: Date; to?: Date } = {}): Promise<Payment[]> {
+    const conditions = [eq(payments.userId, userId)];
+    if (filters.accountId) conditions.push(eq(payments.accountId, filters.accountId));
+    if (filters.from) conditions.push(gte(payments.paymentDate, filters.from));
+    if (filters.to) conditions.push(lte(payments.paymentDate, filters.to));
+
+    return await db
+      .select()
+      .from(payments)
+      .where(and(...conditions))
+      .orderBy(desc(payments.paymentDate));
+  }
+
+  async getPayment(id: string, userId: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.id, id), eq(payments.userId, userId)));
+    return payment;
+  }
+
+  async createPayment(paymentData: InsertPayment & { userId: string }): Promise<Payment> {
+    const [payment] = await db
+      .insert(payments)
+      .values(paymentData)
+      .returning();
+    return payment;
+  }
+
+  async updatePayment(id: string, userId: string, updates: UpdatePayment): Promise<Payment | undefined> {
+    const [payment] = await db
+      .update(payments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(payments.id, id), eq(payments.userId, userId)))
+      .returning();
+    return payment;
+  }
+
+  async deletePayment(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(payments)
+      .where(and(eq(payments.id, id), eq(payments.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Transaction operations
+  async getTransactions(
+    accountId: string,
+    userId: string,
+    filters: { from?: Date; to?: Date; limit?: number; offset?: number } = {},
+  ): Promise<{ transactions: Transaction[]; total: number }> {
+    const conditions = [eq(transactions.accountId, accountId), eq(transactions.userId, userId)];
+    if (filters.from) conditions.push(gte(transactions.transactionDate, filters.from));
+    if (filters.to) conditions.push(lte(transactions.transactionDate, filters.to));
+
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(desc(transactions.transactionDate), desc(transactions.createdAt))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(transactions)
+      .where(and(...conditions));
+
+    return { transactions: rows, total: count };
+  }
+
+  // Providers resend transactions as they post or change, so rows are keyed by the provider's ID
+  async upsertTransactions(rows: InsertTransaction[]): Promise<void> {
+    for (let i = 0; i < rows.length; i += 500) {
+      await db
+        .insert(transactions)
+        .values(rows.slice(i, i + 500))
+        .onConflictDoUpdate({
+          target: [transactions.provider, transactions.providerTransactionId],
+          set: {
+            accountId: sql`excluded.account_id`,
+            connectionId: sql`excluded.connection_id`,
+            amount: sql`excluded.amount`,
+            transactionDate: sql`excluded.transaction_date`,
+            description: sql`excluded.description`,
+            merchantName: sql`excluded.merchant_name`,
+            category: sql`excluded.category`,
+            pending: sql`excluded.pending`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+  }
+
+  async deleteTransactions(userId: string, provider: string, providerTransactionIds: string[]): Promise<void> {
+    if (providerTransactionIds.length === 0) return;
+    await db
+      .delete(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactions.provider, provider),
+        inArray(transactions.providerTransactionId, providerTransactionIds),
+      ));
+  }
+
+  async getLatestTransactionDate(connectionId: string): Promise<Date | undefined> {
+    const [row] = await db
+      .select({ latest: sql<Date | null>`max(${transactions.transactionDate})` })
+      .from(transactions)
+      .where(eq(transactions.connectionId, connectionId));
+    return row?.latest ? new Date(row.latest) : undefined;
+  }
+
+  // Plaid connection operations
+  async getPlaidConnections(userId: string, includePaused = false): Promise<PlaidConnection[]> {
+    const connections = await db
       .select()
       .from(plaidConnections)
-      .where(and(eq(plaidConnections.userId, userId), eq(plaidConnections.isActive, true)));
+      .where(includePaused ? eq(plaidConnections.userId, userId) : and(eq(plaidConnections.userId, userId), eq(plaidConnections.isActive, true)));
+    return connections.map(openPlaidConnection);
   }
 
   async createPlaidConnection(connectionData: InsertPlaidConnection & { userId: string }): Promise<PlaidConnection> {
     const [connection] = await db
       .insert(plaidConnections)
-      .values(connectionData)
+      .values(sealPlaidConnection(connectionData))
       .returning();
-    return connection;
+    return openPlaidConnection(connection);
   }
 
   async updatePlaidConnection(id: string, userId: string, updates: Partial<PlaidConnection>): Promise<PlaidConnection | undefined> {
     const [connection] = await db
       .update(plaidConnections)
-      .set(updates)
+      .set(sealPlaidConnection(updates))
       .where(and(eq(plaidConnections.id, id), eq(plaidConnections.userId, userId)))
       .returning();
-    return connection;
+    return openPlaidConnection(connection);
+  }
+
+  async deletePlaidConnection(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(plaidConnections)
+      .where(and(eq(plaidConnections.id, id), eq(plaidConnections.userId, userId)))
+      .returning({ id: plaidConnections.id });
+    return deleted.length > 0;
   }
 
   async getPlaidConnectionByToken(accessToken: string): Promise<PlaidConnection | undefined> {
     const [connection] = await db
       .select()
       .from(plaidConnections)
-      .where(eq(plaidConnections.accessToken, accessToken));
-    return connection;
+      .where(inArray(plaidConnections.accessTokenHash, Encryption.lookupHashes(accessToken)));
+    if (connection) return openPlaidConnection(connection);
+
+    // Rows stored before tokens were hashed have no lookup hash until `secrets:reencrypt` runs;
+    // compare their tokens directly and seal the match so the next lookup finds it by hash
+    const unhashed = await db
+      .select()
+      .from(plaidConnections)
+      .where(isNull(plaidConnections.accessTokenHash));
+    const legacy = unhashed.map(openPlaidConnection).find(row => row.accessToken === accessToken);
+    if (!legacy) return undefined;
+
+    const [sealed] = await db
+      .update(plaidConnections)
+      .set(sealPlaidConnection({ accessToken }))
+      .where(eq(plaidConnections.id, legacy.id))
+      .returning();
+    return openPlaidConnection(sealed);
+  }
+
+  async getPlaidConnectionByItemId(itemId: string): Promise<PlaidConnection | undefined> {
+    const [connection] = await db
+      .select()
+      .from(plaidConnections)
+      .where(eq(plaidConnections.itemId, itemId));
+    return openPlaidConnection(connection);
   }
 
   // Method connection operations
-  async getMethodConnections(userId: string): Promise<MethodConnection[]> {
+  async getMethodConnections(userId: string, includePaused = false): Promise<MethodConnection[]> {
     return await db
       .select()
       .from(methodConnections)
-      .where(and(eq(methodConnections.userId, userId), eq(methodConnections.isActive, true)));
+      .where(includePaused ? eq(methodConnections.userId, userId) : and(eq(methodConnections.userId, userId), eq(methodConnections.isActive, true)));
   }
 
   async getMethodConnectionByEntity(entityId: string): Promise<MethodConnection | undefined> {
@@ -212,6 +760,155 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return connection;
   }
+
+  async deleteMethodConnection(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(methodConnections)
+      .where(and(eq(methodConnections.id, id), eq(methodConnections.userId, userId)))
+      .returning({ id: methodConnections.id });
+    return deleted.length > 0;
+  }
+
+  // Demo connection operations
+  async getDemoConnections(userId: string, includePaused = false): Promise<DemoConnection[]> {
+    return await db
+      .select()
+      .from(demoConnections)
+      .where(includePaused ? eq(demoConnections.userId, userId) : and(eq(demoConnections.userId, userId), eq(demoConnections.isActive, true)));
+  }
+
+  async getDemoConnection(id: string): Promise<DemoConnection | undefined> {
+    const [connection] = await db
+      .select()
+      .from(demoConnections)
+      .where(eq(demoConnections.id, id));
+    return connection;
+  }
+
+  async createDemoConnection(connectionData: InsertDemoConnection & { userId: string }): Promise<DemoConnection> {
+    const [connection] = await db
+      .insert(demoConnections)
+      .values(connectionData)
+      .returning();
+    return connection;
+  }
+
+  async updateDemoConnection(id: string, userId: string, updates: Partial<DemoConnection>): Promise<DemoConnection | undefined> {
+    const [connection] = await db
+      .update(demoConnections)
+      .set(updates)
+      .where(and(eq(demoConnections.id, id), eq(demoConnections.userId, userId)))
+      .returning();
+    return connection;
+  }
+
+  async deleteDemoConnection(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(demoConnections)
+      .where(and(eq(demoConnections.id, id), eq(demoConnections.userId, userId)))
+      .returning({ id: demoConnections.id });
+    return deleted.length > 0;
+  }
+
+  // File import connection operations
+  async getFileConnections(userId: string, includePaused = false): Promise<FileConnection[]> {
+    return await db
+      .select()
+      .from(fileConnections)
+      .where(includePaused ? eq(fileConnections.userId, userId) : and(eq(fileConnections.userId, userId), eq(fileConnections.isActive, true)));
+  }
+
+  async getFileConnection(id: string): Promise<FileConnection | undefined> {
+    const [connection] = await db
+      .select()
+      .from(fileConnections)
+      .where(eq(fileConnections.id, id));
+    return connection;
+  }
+
+  async createFileConnection(connectionData: InsertFileConnection & { userId: string }): Promise<FileConnection> {
+    const [connection] = await db
+      .insert(fileConnections)
+      .values(connectionData)
+      .returning();
+    return connection;
+  }
+
+  async updateFileConnection(id: string, userId: string, updates: Partial<FileConnection>): Promise<FileConnection | undefined> {
+    const [connection] = await db
+      .update(fileConnections)
+      .set(updates)
+      .where(and(eq(fileConnections.id, id), eq(fileConnections.userId, userId)))
+      .returning();
+    return connection;
+  }
+
+  async deleteFileConnection(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(fileConnections)
+      .where(and(eq(fileConnections.id, id), eq(fileConnections.userId, userId)))
+      .returning({ id: fileConnections.id });
+    return deleted.length > 0;
+  }
+  
+  // Webhook event operations
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return event;
+  }
+  
+  async getWebhookEventByEventId(provider: string, eventId: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db
+      .select()
+      .from(webhookEvents)
+      .where(and(eq(webhookEvents.provider, provider), eq(webhookEvents.eventId, eventId)));
+    return event;
+  }
+  
+  async getWebhookEvents(status?: string): Promise<WebhookEvent[]> {
+    return await db
+      .select()
+      .from(webhookEvents)
+      .where(status ? eq(webhookEvents.status, status) : undefined)
+      .orderBy(desc(webhookEvents.createdAt))
+      .limit(100);
+  }
+  
+  // Returns undefined when another delivery of the same event got there first
+  async createWebhookEvent(eventData: InsertWebhookEvent): Promise<WebhookEvent | undefined> {
+    const [event] = await db
+      .insert(webhookEvents)
+      .values(eventData)
+      .onConflictDoNothing({ target: [webhookEvents.provider, webhookEvents.eventId] })
+      .returning();
+    return event;
+  }
+  
+  // Move a failed event back to processing; only one caller can win
+  // Claims a failed event, or one left 'processing' since before staleBefore by a worker that died
+  async claimWebhookEvent(id: string, staleBefore: Date): Promise<WebhookEvent | undefined> {
+    const [event] = await db
+      .update(webhookEvents)
+      .set({ status: 'processing', error: null, attempts: sql`${webhookEvents.attempts} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(webhookEvents.id, id),
+        or(
+          eq(webhookEvents.status, 'failed'),
+          and(eq(webhookEvents.status, 'processing'), lt(webhookEvents.updatedAt, staleBefore)),
+        ),
+      ))
+      .returning();
+    return event;
+  }
+  
+  async updateWebhookEvent(id: string, updates: Partial<WebhookEvent>): Promise<WebhookEvent | undefined> {
+    const [event] = await db
+      .update(webhookEvents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    return event;
+  }
   
   // Additional helper methods
   async getPlaidConnection(id: string): Promise<PlaidConnection | undefined> {
@@ -219,7 +916,7 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(plaidConnections)
       .where(eq(plaidConnections.id, id));
-    return connection;
+    return openPlaidConnection(connection);
   }
   
   async getMethodConnection(id: string): Promise<MethodConnection | undefined> {
@@ -0,0 +1,92 @@
+import { storage } from './storage';
+import { plaidErrorCode } from './plaid';
+import type { DataSource } from './providers/base';
+
+export type SyncTrigger = 'manual' | 'scheduled' | 'webhook';
+
+// Provider errors mapped onto a small set of codes the UI can explain
+export type SyncErrorCode =
+  | 'REAUTH_REQUIRED'
+  | 'RATE_LIMITED'
+  | 'INSTITUTION_UNAVAILABLE'
+  | 'PROVIDER_AUTH_FAILED'
+  | 'NETWORK_ERROR'
+  | 'PROVIDER_ERROR'
+  | 'UNKNOWN';
+
+const PLAID_ERROR_CODES: Record<string, SyncErrorCode> = {
+  ITEM_LOGIN_REQUIRED: 'REAUTH_REQUIRED',
+  PENDING_EXPIRATION: 'REAUTH_REQUIRED',
+  ACCESS_NOT_GRANTED: 'REAUTH_REQUIRED',
+  INSUFFICIENT_CREDENTIALS: 'REAUTH_REQUIRED',
+  RATE_LIMIT_EXCEEDED: 'RATE_LIMITED',
+  INSTITUTION_DOWN: 'INSTITUTION_UNAVAILABLE',
+  INSTITUTION_NOT_RESPONDING: 'INSTITUTION_UNAVAILABLE',
+  INSTITUTION_NOT_AVAILABLE: 'INSTITUTION_UNAVAILABLE',
+  INVALID_API_KEYS: 'PROVIDER_AUTH_FAILED',
+  INVALID_ACCESS_TOKEN: 'PROVIDER_AUTH_FAILED',
+};
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// Plaid errors carry the HTTP response; Method's SDK puts the status in `code`, and our
+// own Method client only has it in the message
+function httpStatus(error: any): number | undefined {
+  if (typeof error?.response?.status === 'number') return error.response.status;
+  if (typeof error?.status === 'number') return error.status;
+  if (typeof error?.code === 'number') return error.code;
+  const match = typeof error?.message === 'string' ? error.message.match(/API error: (\d{3})/) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Node's network errors carry a string `code`, on the error itself or, from fetch, on its cause
+function systemErrorCode(error: unknown): string | undefined {
+  for (const candidate of [error, error instanceof Error ? error.cause : undefined]) {
+    if (candidate instanceof Error && 'code' in candidate && typeof candidate.code === 'string') {
+      return candidate.code;
+    }
+  }
+  return undefined;
+}
+
+export function normalizeSyncError(error: unknown): SyncErrorCode {
+  const plaidCode = plaidErrorCode(error);
+  if (plaidCode && PLAID_ERROR_CODES[plaidCode]) return PLAID_ERROR_CODES[plaidCode];
+
+  const systemCode = systemErrorCode(error);
+  if (systemCode && NETWORK_ERROR_CODES.includes(systemCode)) return 'NETWORK_ERROR';
+
+  const status = httpStatus(error);
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 401 || status === 403) return 'PROVIDER_AUTH_FAILED';
+  if (status !== undefined && status >= 400) return 'PROVIDER_ERROR';
+  if (plaidCode) return 'PROVIDER_ERROR';
+
+  return 'UNKNOWN';
+}
+
+interface SyncRunTarget {
+  userId: string;
+  provider: DataSource;
+  connectionId: string;
+  trigger: SyncTrigger;
+}
+
+// Record a sync attempt around `sync`, which resolves to the number of accounts it updated.
+// Errors are recorded and rethrown so callers keep their own handling.
+export async function recordSyncRun(target: SyncRunTarget, sync: () => Promise<number>): Promise<number> {
+  const run = await storage.createSyncRun(target);
+
+  try {
+    const accountsUpdated = await sync();
+    await storage.finishSyncRun(run.id, { status: 'succeeded', accountsUpdated });
+    return accountsUpdated;
+  } catch (error) {
+    await storage.finishSyncRun(run.id, {
+      status: 'failed',
+      errorCode: normalizeSyncError(error),
+      errorMessage: error instanceof Error ? error.message : String(error),
+    }).catch(recordError => console.error(`Failed to record sync run ${run.id}:`, recordError));
+    throw error;
+  }
+}
@@ -0,0 +1,119 @@
+import os from 'os';
+import { storage } from './storage';
+import { providerManager } from './providers';
+import { config, getSyncIntervalOverrides } from './config';
+import type { DataSource } from './providers/base';
+import type { SyncJob } from '@shared/schema';
+
+const TICK_MS = 60 * 1000;
+const JOBS_PER_TICK = 10;
+// New connections are picked up on this cadence rather than every tick
+const SEED_EVERY_TICKS = 10;
+// A job still running after this long belonged to a worker that died
+const LEASE_MS = 15 * 60 * 1000;
+const BACKOFF_BASE_MINUTES = 5;
+const BACKOFF_MAX_MINUTES = 24 * 60;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+
+// Minutes between syncs for a provider, or null when it isn't synced in the background
+export function syncIntervalMinutes(source: DataSource): number | null {
+  const override = getSyncIntervalOverrides().get(source);
+  const minutes = override ?? providerManager.getRegistration(source)?.syncIntervalMinutes;
+  return minutes && minutes > 0 ? minutes : null;
+}
+
+// 5, 10, 20, ... minutes after consecutive failures, capped at a day
+export function backoffMinutes(failures: number): number {
+  return Math.min(BACKOFF_BASE_MINUTES * 2 ** Math.max(failures - 1, 0), BACKOFF_MAX_MINUTES);
+}
+
+const minutesFrom = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+// Create a job for every active connection that doesn't have one yet
+async function seedJobs() {
+  for (const userId of await storage.getUserIdsWithActiveConnections()) {
+    const connections = await providerManager.getUserConnections(userId);
+    for (const connection of connections) {
+      const interval = syncIntervalMinutes(connection.provider);
+      if (!connection.isActive || interval === null) continue;
+
+      await storage.ensureSyncJob({
+        userId,
+        provider: connection.provider,
+        connectionId: connection.id,
+        nextRunAt: minutesFrom(connection.lastSynced || new Date(), interval),
+      });
+    }
+  }
+}
+
+async function runJob(job: SyncJob) {
+  const interval = syncIntervalMinutes(job.provider);
+  const connection = (await providerManager.getUserConnections(job.userId)).find(c => c.id === job.connectionId);
+
+  // Disconnected, paused, or the provider is no longer scheduled
+  if (!connection || !connection.isActive || interval === null) {
+    await storage.deleteSyncJob(job.id);
+    return;
+  }
+
+  const now = new Date();
+
+  // Syncing can't succeed until the user logs in again; check back on the normal cadence
+  if (connection.metadata?.needsReauth) {
+    await storage.finishSyncJob(job.id, { nextRunAt: minutesFrom(now, interval) });
+    return;
+  }
+
+  try {
+    await providerManager.syncConnection(job.userId, job.connectionId, 'scheduled');
+    await storage.finishSyncJob(job.id, {
+      failures: 0,
+      lastError: null,
+      lastRunAt: now,
+      nextRunAt: minutesFrom(new Date(), interval),
+    });
+  } catch (error) {
+    const failures = job.failures + 1;
+    console.error(`Scheduled sync of ${job.provider} connection ${job.connectionId} failed (attempt ${failures}):`, error);
+    await storage.finishSyncJob(job.id, {
+      failures,
+      lastError: error instanceof Error ? error.message : String(error),
+      lastRunAt: now,
+      nextRunAt: minutesFrom(new Date(), backoffMinutes(failures)),
+    });
+  }
+}
+
+let running = false;
+let ticks = 0;
+
+async function tick() {
+  // Skip if the previous tick is still working through its jobs
+  if (running) return;
+  running = true;
+
+  try {
+    if (ticks++ % SEED_EVERY_TICKS === 0) {
+      await seedJobs();
+    }
+
+    const jobs = await storage.claimDueSyncJobs(workerId, JOBS_PER_TICK, new Date(Date.now() - LEASE_MS));
+    for (const job of jobs) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('Sync scheduler tick failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startSyncScheduler() {
+  if (config.SYNC_SCHEDULER_ENABLED !== 'true') return;
+
+  const timer = setInterval(tick, TICK_MS);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { logSecurityEvent } from './security';
+import type { WebhookEvent } from '@shared/schema';
+
+export type WebhookHandler = (payload: any) => Promise<void>;
+
+// An event still 'processing' after this long belonged to a worker that died
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface WebhookOutcome {
+  event: WebhookEvent;
+  status: 'processed' | 'duplicate' | 'failed';
+}
+
+const staleBefore = () => new Date(Date.now() - PROCESSING_TIMEOUT_MS);
+
+// Failed events and ones stuck in 'processing' can be claimed and processed again
+export function isReclaimable(event: WebhookEvent): boolean {
+  return event.status === 'failed'
+    || (event.status === 'processing' && !!event.updatedAt && event.updatedAt < staleBefore());
+}
+
+async function runHandler(event: WebhookEvent, handler: WebhookHandler): Promise<WebhookOutcome> {
+  try {
+    await handler(event.payload);
+    const processed = await storage.updateWebhookEvent(event.id, {
+      status: 'processed',
+      error: null,
+      processedAt: new Date(),
+    });
+    return { event: processed || event, status: 'processed' };
+  } catch (error) {
+    console.error(`Failed to process ${event.provider} webhook ${event.eventId}:`, error);
+    const failed = await storage.updateWebhookEvent(event.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { event: failed || event, status: 'failed' };
+  }
+}
+
+// Record a verified delivery and process it unless the same event was already handled.
+// Redeliveries of an event that failed, or whose processing was abandoned, are processed again.
+export async function processWebhookEvent(
+  provider: string,
+  rawBody: Buffer,
+  handler: WebhookHandler,
+): Promise<WebhookOutcome> {
+  const payload = JSON.parse(rawBody.toString('utf8'));
+  const payloadHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+  const eventId = typeof payload.id === 'string' && payload.id ? payload.id : payloadHash;
+
+  let event = await storage.createWebhookEvent({
+    provider,
+    eventId,
+    eventType: typeof payload.type === 'string' ? payload.type : null,
+    payloadHash,
+    payload,
+    status: 'processing',
+  });
+
+  if (!event) {
+    const existing = (await storage.getWebhookEventByEventId(provider, eventId))!;
+    if (existing.payloadHash !== payloadHash) {
+      // The stored payload stays authoritative
+      logSecurityEvent('WEBHOOK_PAYLOAD_MISMATCH', { provider, eventId });
+    }
+
+    event = isReclaimable(existing) ? await storage.claimWebhookEvent(existing.id, staleBefore()) : undefined;
+    if (!event) {
+      return { event: existing, status: 'duplicate' };
+    }
+  }
+
+  return runHandler(event, handler);
+}
+
+// Process a failed or abandoned event again from its stored payload. Returns null when it can't be claimed.
+export async function replayWebhookEvent(id: string, handler: WebhookHandler): Promise<WebhookOutcome | null> {
+  const event = await storage.claimWebhookEvent(id, staleBefore());
+  if (!event) return null;
+
+  return runHandler(event, handler);
+}
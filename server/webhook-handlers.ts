@@ -0,0 +1,19 @@
+import { providerManager } from './providers';
+import type { MethodProvider } from './providers/method';
+import type { WebhookHandler } from './webhook-events';
+
+// Handlers for providers whose webhooks are recorded in webhook_events
+export function getWebhookHandler(source: string): WebhookHandler | undefined {
+  if (source === 'method') {
+    const methodProvider = providerManager.getProvider('method') as MethodProvider | undefined;
+    return methodProvider && (async payload => {
+      const result = await methodProvider.handleWebhook(payload);
+      if (result.sync && result.connection) {
+        // Awaited, so a failed sync marks the event failed and Method's retry runs it again.
+        // Replays are recorded as webhook syncs too.
+        await providerManager.syncConnection(result.connection.userId, result.connection.id, 'webhook');
+      }
+    });
+  }
+  return undefined;
+}
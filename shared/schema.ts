@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -34,6 +35,7 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   failedLoginAttempts: integer("failed_login_attempts").default(0),
   lockedUntil: timestamp("locked_until"),
+  calendarTokenHash: varchar("calendar_token_hash").unique(), // SHA-256 of the iCalendar feed token
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -42,9 +44,14 @@ export const users = pgTable("users", {
 export const debtAccounts = pgTable("debt_accounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  connectionId: varchar("connection_id"), // Row in the syncSource provider's connection table that syncs this account
   plaidAccountId: varchar("plaid_account_id"),
   methodAccountId: varchar("method_account_id"), // Method account ID
-  syncSource: varchar("sync_source").default('manual'), // 'plaid', 'method', or 'manual'
+  fileAccountId: varchar("file_account_id"), // Institution plus account number (or name) for statement imports
+  providerAccountId: varchar("provider_account_id"), // Account ID for registered providers without a column above
+  providerAccountSource: varchar("provider_account_source"), // Provider that reported providerAccountId
+  syncSource: varchar("sync_source").default('manual'), // 'manual' or the ID of a registered provider
+  mask: varchar("mask", { length: 4 }), // Last 4 digits of the account number, used to spot duplicates
   institutionName: varchar("institution_name").notNull(),
   accountNickname: varchar("account_nickname").notNull(),
   accountType: varchar("account_type").notNull(), // credit_card, auto_loan, student_loan, mortgage, personal_loan, heloc
@@ -52,6 +59,7 @@ export const debtAccounts = pgTable("debt_accounts", {
   interestRate: decimal("interest_rate", { precision: 5, scale: 2 }).notNull(),
   minimumPayment: decimal("minimum_payment", { precision: 10, scale: 2 }),
   dueDate: integer("due_date"), // Day of month (1-31)
+  nextPaymentDueDate: timestamp("next_payment_due_date"), // Exact next due date when the provider reports one
   creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }), // For credit cards
   isHidden: boolean("is_hidden").default(false),
   isManual: boolean("is_manual").default(false), // Manually added vs API
@@ -64,10 +72,17 @@ export const debtAccounts = pgTable("debt_accounts", {
 export const plaidConnections = pgTable("plaid_connections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  accessToken: text("access_token").notNull(), // This will be encrypted
+  accessToken: text("access_token").notNull(), // Encrypted by storage with Encryption.encrypt
+  accessTokenHash: varchar("access_token_hash").unique(), // Encryption.lookupHash of the token, for lookups by token
   institutionId: varchar("institution_id").notNull(),
   institutionName: varchar("institution_name").notNull(),
-  isActive: boolean("is_active").default(true),
+  nickname: varchar("nickname"), // Name the user gave the connection, shown instead of institutionName
+  itemId: varchar("item_id").unique(), // Plaid item ID, used to match webhooks
+  isActive: boolean("is_active").default(true), // False while the user has paused syncing
+  needsReauth: boolean("needs_reauth").default(false),
+  reauthReason: varchar("reauth_reason"), // ITEM_LOGIN_REQUIRED, PENDING_EXPIRATION or USER_PERMISSION_REVOKED
+  consentExpiresAt: timestamp("consent_expires_at"),
+  transactionsCursor: text("transactions_cursor"), // Position in /transactions/sync; null until the first sync
   lastSynced: timestamp("last_synced"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -79,17 +94,224 @@ export const methodConnections = pgTable("method_connections", {
   entityId: varchar("entity_id").notNull(), // Method entity ID
   accountId: varchar("account_id").notNull(), // Method account ID
   institutionName: varchar("institution_name").notNull(),
+  nickname: varchar("nickname"),
+  isActive: boolean("is_active").default(true),
+  lastSynced: timestamp("last_synced"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Demo connections table - one row per demo institution a user has added
+export const demoConnections = pgTable("demo_connections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  institutionName: varchar("institution_name").notNull(),
+  nickname: varchar("nickname"),
   isActive: boolean("is_active").default(true),
+  simulationSeed: integer("simulation_seed").notNull().default(0), // Seeds the balance simulation, see server/providers/demo-simulation.ts
+  simulationStart: timestamp("simulation_start"), // Fixture balances apply here; null means six months before createdAt
+  clockOffsetMonths: integer("clock_offset_months").notNull().default(0), // How far the user has jumped the simulated clock ahead
   lastSynced: timestamp("last_synced"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// File import connections - one row per institution a user has imported statements for
+export const fileConnections = pgTable("file_connections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  institutionName: varchar("institution_name").notNull(),
+  nickname: varchar("nickname"),
+  format: varchar("format").notNull(), // csv or ofx
+  fileName: varchar("file_name"), // Most recent upload
+  isActive: boolean("is_active").default(true),
+  lastSynced: timestamp("last_synced"), // When a file was last imported
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Webhook deliveries, so retried events are processed only once and failures can be replayed
+export const webhookEvents = pgTable(
+  "webhook_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    provider: varchar("provider").notNull(),
+    eventId: varchar("event_id").notNull(), // The provider's event ID, or the payload hash when it has none
+    eventType: varchar("event_type"),
+    payloadHash: varchar("payload_hash").notNull(), // SHA-256 of the raw body
+    payload: jsonb("payload").notNull(),
+    status: varchar("status").notNull().default('processing'), // 'processing', 'processed' or 'failed'
+    error: text("error"),
+    attempts: integer("attempts").notNull().default(1),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(), // When the current attempt was claimed or last written
+    processedAt: timestamp("processed_at"),
+  },
+  (table) => [uniqueIndex("IDX_webhook_events_provider_event").on(table.provider, table.eventId)],
+);
+
+// Scheduled background syncs, one row per connection. Workers claim due rows with a lease so
+// each sync runs on one instance at a time and survives restarts.
+export const syncJobs = pgTable(
+  "sync_jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    provider: varchar("provider").notNull(),
+    connectionId: varchar("connection_id").notNull(),
+    status: varchar("status").notNull().default('idle'), // 'idle' or 'running'
+    nextRunAt: timestamp("next_run_at").notNull(),
+    failures: integer("failures").notNull().default(0), // Consecutive failures, drives the backoff
+    lastError: text("last_error"),
+    lastRunAt: timestamp("last_run_at"),
+    lockedBy: varchar("locked_by"),
+    lockedAt: timestamp("locked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_sync_jobs_connection").on(table.provider, table.connectionId),
+    index("IDX_sync_jobs_next_run").on(table.nextRunAt),
+  ],
+);
+
+// One row per sync attempt of a connection, so failures can be shown to the user and investigated
+export const syncRuns = pgTable(
+  "sync_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    provider: varchar("provider").notNull(),
+    connectionId: varchar("connection_id").notNull(),
+    trigger: varchar("trigger").notNull(), // 'manual', 'scheduled' or 'webhook'
+    status: varchar("status").notNull().default('running'), // 'running', 'succeeded' or 'failed'
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    finishedAt: timestamp("finished_at"),
+    accountsUpdated: integer("accounts_updated").notNull().default(0),
+    errorCode: varchar("error_code"), // Normalized across providers, see server/sync-runs.ts
+    errorMessage: text("error_message"),
+  },
+  (table) => [
+    index("IDX_sync_runs_user_started").on(table.userId, table.startedAt),
+    index("IDX_sync_runs_connection_started").on(table.connectionId, table.startedAt),
+  ],
+);
+
+// Account pairs the user said are not the same account, so they stop being offered for merging
+export const duplicateDismissals = pgTable(
+  "duplicate_dismissals",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    accountId: varchar("account_id").notNull().references(() => debtAccounts.id, { onDelete: "cascade" }),
+    otherAccountId: varchar("other_account_id").notNull().references(() => debtAccounts.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_duplicate_dismissals_pair").on(table.accountId, table.otherAccountId)],
+);
+
+// Balance history - one row per sync or edit of a debt account
+export const balanceSnapshots = pgTable(
+  "balance_snapshots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    accountId: varchar("account_id").notNull().references(() => debtAccounts.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    balance: decimal("balance", { precision: 12, scale: 2 }).notNull(),
+    interestRate: decimal("interest_rate", { precision: 5, scale: 2 }),
+    minimumPayment: decimal("minimum_payment", { precision: 10, scale: 2 }),
+    creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }),
+    source: varchar("source").notNull(), // 'plaid', 'method', 'demo', or 'manual'
+    recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_balance_snapshots_account_recorded").on(table.accountId, table.recordedAt)],
+);
+
+// APR buckets for credit cards - one row per rate the issuer reports (purchase, cash advance, ...)
+export const aprBuckets = pgTable(
+  "apr_buckets",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    accountId: varchar("account_id").notNull().references(() => debtAccounts.id, { onDelete: "cascade" }),
+    aprType: varchar("apr_type").notNull(), // 'purchase', 'cash_advance', 'balance_transfer', or 'special'
+    aprPercentage: decimal("apr_percentage", { precision: 5, scale: 2 }).notNull(),
+    balance: decimal("balance", { precision: 12, scale: 2 }), // Balance subject to this APR
+    interestCharge: decimal("interest_charge", { precision: 10, scale: 2 }), // Last statement's interest for this bucket
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_apr_buckets_account").on(table.accountId)],
+);
+
+// Promotional rate periods - the account's interestRate is the go-to rate once a promo ends
+export const promoPeriods = pgTable(
+  "promo_periods",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    accountId: varchar("account_id").notNull().references(() => debtAccounts.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    rate: decimal("rate", { precision: 5, scale: 2 }).notNull(),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date").notNull(),
+    deferredInterest: boolean("deferred_interest").default(false), // Interest is charged retroactively if not paid off in time
+    description: varchar("description"), // e.g. "Balance transfer"
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_promo_periods_account").on(table.accountId)],
+);
+
+// Payments ledger - payments the user made or a provider reported
+export const payments = pgTable(
+  "payments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    accountId: varchar("account_id").notNull().references(() => debtAccounts.id, { onDelete: "cascade" }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    paymentDate: timestamp("payment_date").notNull(),
+    source: varchar("source").notNull().default('manual'), // 'manual', 'plaid', or 'method'
+    status: varchar("status").notNull().default('pending'), // 'pending', 'posted', or 'failed'
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_payments_account_date").on(table.accountId, table.paymentDate)],
+);
+
+// Card and loan activity reported by providers
+export const transactions = pgTable(
+  "transactions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    accountId: varchar("account_id").notNull().references(() => debtAccounts.id, { onDelete: "cascade" }),
+    connectionId: varchar("connection_id"),
+    provider: varchar("provider").notNull(),
+    providerTransactionId: varchar("provider_transaction_id").notNull(),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // Positive for charges, negative for payments and credits
+    transactionDate: timestamp("transaction_date").notNull(),
+    description: text("description").notNull(),
+    merchantName: varchar("merchant_name"),
+    category: varchar("category"),
+    pending: boolean("pending").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_transactions_provider_id").on(table.provider, table.providerTransactionId),
+    index("IDX_transactions_account_date").on(table.accountId, table.transactionDate),
+  ],
+);
+
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+// Link fields are left out: only provider syncs and account merges set them
 export const insertDebtAccountSchema = createInsertSchema(debtAccounts).omit({
   id: true,
   userId: true,
+  connectionId: true,
+  plaidAccountId: true,
+  methodAccountId: true,
+  fileAccountId: true,
+  providerAccountId: true,
+  providerAccountSource: true,
+  mask: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -99,6 +321,7 @@ export const updateDebtAccountSchema = insertDebtAccountSchema.partial();
 export const insertPlaidConnectionSchema = createInsertSchema(plaidConnections).omit({
   id: true,
   userId: true,
+  accessTokenHash: true,
   createdAt: true,
 });
 
@@ -108,10 +331,78 @@ export const insertMethodConnectionSchema = createInsertSchema(methodConnections
   createdAt: true,
 });
 
-export type InsertDebtAccount = z.infer<typeof insertDebtAccountSchema>;
-export type UpdateDebtAccount = z.infer<typeof updateDebtAccountSchema>;
+export const insertDemoConnectionSchema = createInsertSchema(demoConnections).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertFileConnectionSchema = createInsertSchema(fileConnections).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPromoPeriodSchema = createInsertSchema(promoPeriods, {
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+}).omit({
+  id: true,
+  accountId: true,
+  userId: true,
+  createdAt: true,
+}).refine((promo) => promo.endDate > promo.startDate, {
+  message: "End date must be after the start date",
+  path: ["endDate"],
+});
+
+export const PAYMENT_SOURCES = ['manual', 'plaid', 'method'] as const;
+export const PAYMENT_STATUSES = ['pending', 'posted', 'failed'] as const;
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  amount: (schema) => schema.refine((value) => parseFloat(value) > 0, "Amount must be positive"),
+  paymentDate: z.coerce.date(),
+  source: z.enum(PAYMENT_SOURCES),
+  status: z.enum(PAYMENT_STATUSES),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updatePaymentSchema = insertPaymentSchema.partial();
+
+export type InsertDebtAccount = Omit<typeof debtAccounts.$inferInsert, "id" | "userId" | "createdAt" | "updatedAt">;
+export type UpdateDebtAccount = Partial<InsertDebtAccount>;
 export type DebtAccount = typeof debtAccounts.$inferSelect;
 export type PlaidConnection = typeof plaidConnections.$inferSelect;
 export type InsertPlaidConnection = z.infer<typeof insertPlaidConnectionSchema>;
 export type MethodConnection = typeof methodConnections.$inferSelect;
 export type InsertMethodConnection = z.infer<typeof insertMethodConnectionSchema>;
+export type DemoConnection = typeof demoConnections.$inferSelect;
+export type InsertDemoConnection = z.infer<typeof insertDemoConnectionSchema>;
+export type FileConnection = typeof fileConnections.$inferSelect;
+export type InsertFileConnection = z.infer<typeof insertFileConnectionSchema>;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type DuplicateDismissal = typeof duplicateDismissals.$inferSelect;
+export type SyncJob = typeof syncJobs.$inferSelect;
+export type InsertSyncJob = typeof syncJobs.$inferInsert;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type InsertSyncRun = typeof syncRuns.$inferInsert;
+export type BalanceSnapshot = typeof balanceSnapshots.$inferSelect;
+export type AprBucket = typeof aprBuckets.$inferSelect;
+export type InsertAprBucket = typeof aprBuckets.$inferInsert;
+export type PromoPeriod = typeof promoPeriods.$inferSelect;
+export type InsertPromoPeriod = z.infer<typeof insertPromoPeriodSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type Transaction = typeof transactions.$inferSelect;
+export type InsertTransaction = typeof transactions.$inferInsert;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type UpdatePayment = z.infer<typeof updatePaymentSchema>;
@@ -0,0 +1,68 @@
+import type { DebtAccount } from "./schema";
+
+// Account types that carry a revolving credit limit
+export const REVOLVING_ACCOUNT_TYPES = ["credit_card", "heloc"];
+
+export interface UtilizationFigures {
+  balance: number;
+  creditLimit: number;
+  utilization: number; // Percentage of the limit in use
+  payDownTo30: number; // Amount to pay to reach 30% utilization
+  payDownTo10: number; // Amount to pay to reach 10% utilization
+}
+
+export interface AccountUtilization extends UtilizationFigures {
+  accountId: string;
+  accountNickname: string;
+}
+
+export interface UtilizationSummary {
+  overall: UtilizationFigures | null; // null when no revolving account has a limit
+  accounts: AccountUtilization[];
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export function utilizationFigures(balance: number, creditLimit: number): UtilizationFigures {
+  const payDownTo = (target: number) => roundCents(Math.max(0, balance - creditLimit * target / 100));
+
+  return {
+    balance: roundCents(balance),
+    creditLimit: roundCents(creditLimit),
+    utilization: creditLimit > 0 ? Math.round(balance / creditLimit * 10000) / 100 : 0,
+    payDownTo30: payDownTo(30),
+    payDownTo10: payDownTo(10),
+  };
+}
+
+export function isRevolvingWithLimit(account: Pick<DebtAccount, "accountType" | "creditLimit">): boolean {
+  return REVOLVING_ACCOUNT_TYPES.includes(account.accountType) && !!account.creditLimit && parseFloat(account.creditLimit) > 0;
+}
+
+export function accountUtilization(account: DebtAccount): AccountUtilization | null {
+  if (!isRevolvingWithLimit(account)) return null;
+
+  return {
+    accountId: account.id,
+    accountNickname: account.accountNickname,
+    ...utilizationFigures(parseFloat(account.currentBalance), parseFloat(account.creditLimit!)),
+  };
+}
+
+export function summarizeUtilization(accounts: DebtAccount[]): UtilizationSummary {
+  const perAccount = accounts
+    .map(accountUtilization)
+    .filter((utilization): utilization is AccountUtilization => utilization !== null);
+
+  if (perAccount.length === 0) {
+    return { overall: null, accounts: [] };
+  }
+
+  const totalBalance = perAccount.reduce((sum, account) => sum + account.balance, 0);
+  const totalLimit = perAccount.reduce((sum, account) => sum + account.creditLimit, 0);
+
+  return {
+    overall: utilizationFigures(totalBalance, totalLimit),
+    accounts: perAccount,
+  };
+}